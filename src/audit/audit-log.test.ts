@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { mkdtemp, readdir, rm, utimes, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { HexConfig } from '../types/index.js';
+import { AuditLog, recordApiRequest, recordRunEvent, sanitizeArguments } from './audit-log.js';
+
+type AuditSettings = Pick<HexConfig, 'auditEnabled' | 'auditMaxBytes' | 'auditMaxFiles'>;
+
+describe('AuditLog', () => {
+  let dir: string;
+  let path: string;
+
+  function createLog(settings: Partial<AuditSettings> = {}): AuditLog {
+    return new AuditLog(path, { auditEnabled: true, auditMaxBytes: 1024 * 1024, auditMaxFiles: 30, ...settings });
+  }
+
+  function callTool(log: AuditLog, name: string, projectId = 'p1'): Promise<void> {
+    return log.track({ type: 'tool_call', name, arguments: { project_id: projectId } }, async () => {
+      recordApiRequest({ method: 'POST', endpoint: `/projects/${projectId}/runs`, status: 200, durationMs: 5 });
+      recordRunEvent({ action: 'started', projectId, runId: `run-${name}` });
+    });
+  }
+
+  function today(): string {
+    return new Date().toISOString().slice(0, 10);
+  }
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'hex-audit-'));
+    path = join(dir, 'audit.jsonl');
+    jest.spyOn(console, 'info').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('records each operation with its API requests, runs and outcome', async () => {
+    const log = createLog();
+    await callTool(log, 'hex_run_project');
+    await expect(log.track({ type: 'tool_call', name: 'hex_cancel_run' }, async () => {
+      throw new Error('Run not found');
+    })).rejects.toThrow('Run not found');
+    await log.track({ type: 'tool_call', name: 'hex_get_project' }, async () => ({ isError: true }), () => ({ error: 'failed' }));
+
+    const { entries } = await log.query({ limit: 10 });
+    expect(entries.map(entry => [entry.name, entry.outcome, entry.error])).toEqual([
+      ['hex_get_project', 'error', 'failed'],
+      ['hex_cancel_run', 'error', 'Run not found'],
+      ['hex_run_project', 'success', undefined],
+    ]);
+    expect(entries[2]).toMatchObject({
+      apiRequests: [{ method: 'POST', endpoint: '/projects/p1/runs', status: 200 }],
+      runs: [{ action: 'started', projectId: 'p1', runId: 'run-hex_run_project' }],
+    });
+  });
+
+  it('writes nothing when disabled', async () => {
+    const log = createLog({ auditEnabled: false });
+    await callTool(log, 'hex_run_project');
+    expect(await readdir(dir)).toEqual([]);
+  });
+
+  it('filters queries and reports when more entries match than the limit', async () => {
+    const log = createLog();
+    await callTool(log, 'a', 'p1');
+    await callTool(log, 'b', 'p2');
+    await callTool(log, 'c', 'p1');
+
+    const byProject = await log.query({ projectId: 'p1', limit: 10 });
+    expect(byProject.entries.map(entry => entry.name)).toEqual(['c', 'a']);
+
+    const byRun = await log.query({ runId: 'run-b', limit: 10 });
+    expect(byRun.entries.map(entry => entry.name)).toEqual(['b']);
+
+    const limited = await log.query({ limit: 2 });
+    expect(limited.entries.map(entry => entry.name)).toEqual(['c', 'b']);
+    expect(limited.truncated).toBe(true);
+  });
+
+  it('rotates the file when it would grow past the size limit', async () => {
+    const log = createLog({ auditMaxBytes: 300 });
+    await callTool(log, 'a');
+    await callTool(log, 'b');
+    await callTool(log, 'c');
+
+    expect((await readdir(dir)).sort()).toEqual([`audit.${today()}.1.jsonl`, `audit.${today()}.jsonl`, 'audit.jsonl']);
+
+    const { entries, filesSearched } = await log.query({ limit: 10 });
+    expect(entries.map(entry => entry.name)).toEqual(['c', 'b', 'a']);
+    expect(filesSearched).toBe(3);
+  });
+
+  it('rotates a file left over from an earlier day', async () => {
+    await writeFile(path, '{}\n');
+    await utimes(path, new Date('2024-05-01T12:00:00Z'), new Date('2024-05-01T12:00:00Z'));
+
+    await callTool(createLog(), 'a');
+
+    expect((await readdir(dir)).sort()).toEqual(['audit.2024-05-01.jsonl', 'audit.jsonl']);
+  });
+
+  it('continues after the day\'s highest sequence instead of overwriting', async () => {
+    await writeFile(join(dir, `audit.${today()}.jsonl`), 'first\n');
+    await writeFile(join(dir, `audit.${today()}.2.jsonl`), 'third\n');
+    const log = createLog({ auditMaxBytes: 300 });
+
+    await callTool(log, 'a');
+    await callTool(log, 'b');
+
+    expect((await readdir(dir)).sort()).toEqual([
+      `audit.${today()}.2.jsonl`,
+      `audit.${today()}.3.jsonl`,
+      `audit.${today()}.jsonl`,
+      'audit.jsonl',
+    ]);
+  });
+
+  it('deletes the oldest rotated files beyond the limit', async () => {
+    await writeFile(join(dir, 'audit.2024-05-01.jsonl'), '{}\n');
+    await writeFile(join(dir, 'audit.2024-05-02.jsonl'), '{}\n');
+    const log = createLog({ auditMaxBytes: 300, auditMaxFiles: 2 });
+
+    await callTool(log, 'a');
+    await callTool(log, 'b');
+
+    expect((await readdir(dir)).sort()).toEqual(['audit.2024-05-02.jsonl', `audit.${today()}.jsonl`, 'audit.jsonl']);
+  });
+
+  it('skips rotated files from before the queried range', async () => {
+    await writeFile(join(dir, 'audit.2024-05-01.jsonl'), '{}\n');
+    const log = createLog();
+    await callTool(log, 'a');
+
+    const { filesSearched } = await log.query({ since: new Date(Date.now() - 60_000), limit: 10 });
+    expect(filesSearched).toBe(1);
+  });
+
+  it('logs requests made outside any tracked operation as system entries', async () => {
+    const log = createLog();
+    log.captureUntrackedRequests();
+
+    recordApiRequest({ method: 'GET', endpoint: '/projects?limit=1', status: 401, durationMs: 12 });
+
+    const { entries } = await log.query({ type: 'system', limit: 10 });
+    expect(entries).toEqual([expect.objectContaining({
+      name: 'GET /projects?limit=1',
+      outcome: 'error',
+      durationMs: 12,
+      apiRequests: [{ method: 'GET', endpoint: '/projects?limit=1', status: 401, durationMs: 12 }],
+    })]);
+  });
+});
+
+describe('sanitizeArguments', () => {
+  it('redacts credentials and truncates long values', () => {
+    const sanitized = sanitizeArguments({
+      project_id: 'p1',
+      api_key: 'secret',
+      nested: { authToken: 'secret', items: Array.from({ length: 60 }, (_, index) => index) },
+      note: 'x'.repeat(600),
+    });
+
+    expect(sanitized.project_id).toBe('p1');
+    expect(sanitized.api_key).toBe('[redacted]');
+    expect((sanitized.nested as Record<string, unknown>).authToken).toBe('[redacted]');
+    expect((sanitized.nested as { items: unknown[] }).items).toHaveLength(51);
+    expect(sanitized.note).toMatch(/… \(600 characters\)$/);
+  });
+});
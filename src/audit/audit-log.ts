@@ -0,0 +1,411 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { appendFile, mkdir, readdir, readFile, rename, stat, unlink } from 'node:fs/promises';
+import { basename, dirname, extname, join } from 'node:path';
+import { HexAuditApiRequest, HexAuditEntry, HexAuditRunEvent, HexConfig } from '../types/index.js';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+
+/** What an audited operation says about itself; the log adds timing, outcome and API activity. */
+export type AuditSubject = Omit<HexAuditEntry, 'timestamp' | 'outcome' | 'error' | 'durationMs' | 'apiRequests' | 'runs'>;
+
+export interface AuditQuery {
+  type?: HexAuditEntry['type'];
+  name?: string;
+  /** Matches the project in the arguments, the endpoints called and the runs started or cancelled. */
+  projectId?: string;
+  runId?: string;
+  sessionId?: string;
+  profile?: string;
+  clientTokenId?: string;
+  outcome?: HexAuditEntry['outcome'];
+  /** Only entries that started or cancelled runs. */
+  runsOnly?: boolean;
+  since?: Date;
+  until?: Date;
+  limit: number;
+}
+
+export interface AuditQueryResult {
+  /** Newest first. */
+  entries: HexAuditEntry[];
+  filesSearched: number;
+  /** True when older matches exist beyond `limit`. */
+  truncated: boolean;
+}
+
+interface AuditRecorder {
+  apiRequests: HexAuditApiRequest[];
+  runs: HexAuditRunEvent[];
+}
+
+const SECRET_KEY_PATTERN = /token|secret|password|api_?key|authorization/i;
+const MAX_STRING_LENGTH = 500;
+const MAX_ARRAY_ITEMS = 50;
+const MAX_DEPTH = 6;
+
+export const AUDIT_ENTRY_TYPES: HexAuditEntry['type'][] = [
+  'tool_call',
+  'resource_read',
+  'mcp_request',
+  'session_start',
+  'subscription_poll',
+  'scheduled_run',
+  'system',
+];
+
+// The operation being audited, so API requests deep in the tools are attributed to it
+const auditContext = new AsyncLocalStorage<AuditRecorder>();
+
+// Receives API requests made outside any audited operation; see `AuditLog.captureUntrackedRequests`
+let untrackedRequestSink: ((request: HexAuditApiRequest) => void) | undefined;
+
+/** Records a Hex API request against the operation being audited, or on its own if there is none. */
+export function recordApiRequest(request: HexAuditApiRequest): void {
+  const recorder = auditContext.getStore();
+  if (recorder) {
+    recorder.apiRequests.push(request);
+  } else {
+    untrackedRequestSink?.(request);
+  }
+}
+
+/** Records a run started or cancelled by the operation being audited, if any. */
+export function recordRunEvent(event: HexAuditRunEvent): void {
+  auditContext.getStore()?.runs.push(event);
+}
+
+/** Copies tool arguments for the log, redacting anything that looks like a credential and truncating long values. */
+export function sanitizeArguments(args: Record<string, unknown>): Record<string, unknown> {
+  return sanitizeValue(args, 0) as Record<string, unknown>;
+}
+
+function sanitizeValue(value: unknown, depth: number): unknown {
+  if (typeof value === 'string') {
+    return value.length > MAX_STRING_LENGTH
+      ? `${value.slice(0, MAX_STRING_LENGTH)}… (${value.length} characters)`
+      : value;
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[nested too deeply]';
+  }
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ARRAY_ITEMS).map(item => sanitizeValue(item, depth + 1));
+    return value.length > MAX_ARRAY_ITEMS ? [...items, `… ${value.length - MAX_ARRAY_ITEMS} more`] : items;
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+    key,
+    SECRET_KEY_PATTERN.test(key) ? '[redacted]' : sanitizeValue(item, depth + 1),
+  ]));
+}
+
+function utcDay(time: Date): string {
+  return time.toISOString().slice(0, 10);
+}
+
+async function pathExists(path: string): Promise<boolean> {
+  try {
+    await stat(path);
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+function projectOfEndpoint(endpoint: string): string | undefined {
+  return endpoint.match(/^\/projects\/([^/?]+)/)?.[1];
+}
+
+function matchesQuery(entry: HexAuditEntry, query: AuditQuery): boolean {
+  const time = new Date(entry.timestamp);
+
+  if (query.since && time < query.since) {
+    return false;
+  }
+  if (query.until && time > query.until) {
+    return false;
+  }
+  if (query.type && entry.type !== query.type) {
+    return false;
+  }
+  if (query.name && entry.name !== query.name) {
+    return false;
+  }
+  if (query.sessionId && entry.sessionId !== query.sessionId) {
+    return false;
+  }
+  if (query.profile && entry.profile !== query.profile) {
+    return false;
+  }
+  if (query.clientTokenId && entry.clientTokenId !== query.clientTokenId) {
+    return false;
+  }
+  if (query.outcome && entry.outcome !== query.outcome) {
+    return false;
+  }
+  if (query.runsOnly && entry.runs.length === 0) {
+    return false;
+  }
+  if (query.projectId) {
+    const projectId = query.projectId;
+    const touched = entry.arguments?.project_id === projectId ||
+      entry.runs.some(run => run.projectId === projectId) ||
+      entry.apiRequests.some(request => projectOfEndpoint(request.endpoint) === projectId);
+    if (!touched) {
+      return false;
+    }
+  }
+  if (query.runId) {
+    const runId = query.runId;
+    const touched = entry.arguments?.run_id === runId ||
+      entry.runs.some(run => run.runId === runId) ||
+      entry.apiRequests.some(request => request.endpoint.includes(`/runs/${runId}`));
+    if (!touched) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Append-only JSONL audit log of tool calls, resource reads, scheduled runs
+ * and the other operations listed in `AUDIT_ENTRY_TYPES`, each with the Hex
+ * API requests it made and the runs it started or cancelled. The file is
+ * rotated when it would grow past the size limit and when the UTC day
+ * changes; rotated files are named after the day they cover and the oldest
+ * are deleted beyond `auditMaxFiles`. Writes are serialized, and a failed
+ * write is logged rather than failing the call.
+ */
+export class AuditLog {
+  private writeQueue: Promise<void> = Promise.resolve();
+  private current: { size: number; day: string } | undefined;
+
+  constructor(
+    private filePath: string,
+    private settings: Pick<HexConfig, 'auditEnabled' | 'auditMaxBytes' | 'auditMaxFiles'> = config
+  ) {}
+
+  get enabled(): boolean {
+    return this.settings.auditEnabled;
+  }
+
+  getPath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Logs Hex API requests made outside any tracked operation as `system`
+   * entries of their own, so no request goes unrecorded.
+   */
+  captureUntrackedRequests(): void {
+    untrackedRequestSink = request => {
+      if (!this.enabled) {
+        return;
+      }
+      void this.append({
+        timestamp: new Date(Date.now() - request.durationMs).toISOString(),
+        type: 'system',
+        name: `${request.method} ${request.endpoint}`,
+        outcome: request.error === undefined && (request.status === undefined || request.status < 400) ? 'success' : 'error',
+        ...(request.error !== undefined && { error: request.error }),
+        durationMs: request.durationMs,
+        apiRequests: [request],
+        runs: [],
+      });
+    };
+  }
+
+  /**
+   * Runs `operation` and logs it. `outcomeOf` reports a failure the
+   * operation returned rather than threw, such as an error tool result.
+   */
+  async track<T>(
+    subject: AuditSubject,
+    operation: () => Promise<T>,
+    outcomeOf: (result: T) => { error?: string } = () => ({})
+  ): Promise<T> {
+    if (!this.enabled) {
+      return operation();
+    }
+
+    const recorder: AuditRecorder = { apiRequests: [], runs: [] };
+    const startedAt = new Date();
+
+    const finish = (error: string | undefined) => this.append({
+      timestamp: startedAt.toISOString(),
+      ...subject,
+      outcome: error === undefined ? 'success' : 'error',
+      ...(error !== undefined && { error }),
+      durationMs: Date.now() - startedAt.getTime(),
+      apiRequests: recorder.apiRequests,
+      runs: recorder.runs,
+    });
+
+    try {
+      const result = await auditContext.run(recorder, operation);
+      await finish(outcomeOf(result).error);
+      return result;
+    } catch (error) {
+      await finish(error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+  }
+
+  /** Searches the current and rotated logs, newest entries first. */
+  async query(query: AuditQuery): Promise<AuditQueryResult> {
+    await this.writeQueue;
+
+    const files = await this.logFiles();
+    const entries: HexAuditEntry[] = [];
+    let filesSearched = 0;
+
+    for (const file of files) {
+      // Rotated files are named after the day they cover, so older ones can be skipped without reading them
+      if (query.since && file.day !== undefined && file.day < utcDay(query.since)) {
+        continue;
+      }
+
+      filesSearched++;
+      const lines = (await this.readLines(file.path)).reverse();
+      for (const line of lines) {
+        let entry: HexAuditEntry;
+        try {
+          entry = JSON.parse(line) as HexAuditEntry;
+        } catch {
+          logger.warn(`Skipping malformed audit log line in ${file.path}`);
+          continue;
+        }
+
+        if (matchesQuery(entry, query)) {
+          if (entries.length === query.limit) {
+            return { entries, filesSearched, truncated: true };
+          }
+          entries.push(entry);
+        }
+      }
+    }
+
+    return { entries, filesSearched, truncated: false };
+  }
+
+  private append(entry: HexAuditEntry): Promise<void> {
+    const line = JSON.stringify(entry) + '\n';
+
+    const next = this.writeQueue.then(async () => {
+      const current = await this.currentFile();
+      const bytes = Buffer.byteLength(line);
+      const day = utcDay(new Date());
+
+      if (current.size > 0 && (current.day !== day || current.size + bytes > this.settings.auditMaxBytes)) {
+        await this.rotate(current.day);
+        current.size = 0;
+      }
+
+      await appendFile(this.filePath, line, { encoding: 'utf8', mode: 0o600 });
+      current.size += bytes;
+      current.day = day;
+    });
+
+    this.writeQueue = next.catch(error => {
+      logger.error(`Failed to write audit log ${this.filePath}:`, error);
+    });
+    return this.writeQueue;
+  }
+
+  private async currentFile(): Promise<{ size: number; day: string }> {
+    if (!this.current) {
+      await mkdir(dirname(this.filePath), { recursive: true });
+      try {
+        const stats = await stat(this.filePath);
+        this.current = { size: stats.size, day: utcDay(stats.mtime) };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+        this.current = { size: 0, day: utcDay(new Date()) };
+      }
+    }
+    return this.current;
+  }
+
+  /**
+   * Renames the current file to `<name>.<day>[.<n>]<ext>`, after the day's
+   * highest existing sequence, and deletes the oldest rotated files beyond
+   * the limit. Pruning can leave gaps in a day's sequence, so counting the
+   * day's files could name one that still exists.
+   */
+  private async rotate(day: string): Promise<void> {
+    const sequences = (await this.rotatedFiles())
+      .filter(file => file.day === day)
+      .map(file => file.sequence);
+    let sequence = sequences.length > 0 ? Math.max(...sequences) + 1 : 0;
+
+    let target = this.rotatedPath(day, sequence);
+    while (await pathExists(target)) {
+      target = this.rotatedPath(day, ++sequence);
+    }
+
+    await rename(this.filePath, target);
+    logger.info(`Rotated audit log to ${target}`);
+
+    const all = await this.rotatedFiles();
+    await Promise.all(all.slice(this.settings.auditMaxFiles).map(file => unlink(file.path)));
+  }
+
+  private rotatedPath(day: string, sequence: number): string {
+    const { stem, ext } = this.nameParts();
+    return join(dirname(this.filePath), `${stem}.${day}${sequence > 0 ? `.${sequence}` : ''}${ext}`);
+  }
+
+  private nameParts(): { stem: string; ext: string } {
+    const ext = extname(this.filePath);
+    return { stem: basename(this.filePath, ext), ext };
+  }
+
+  /** Rotated files, newest first. */
+  private async rotatedFiles(): Promise<Array<{ path: string; day: string; sequence: number }>> {
+    const { stem, ext } = this.nameParts();
+    const pattern = new RegExp(`^${stem.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\.(\\d{4}-\\d{2}-\\d{2})(?:\\.(\\d+))?${ext.replace('.', '\\.')}$`);
+
+    let names: string[];
+    try {
+      names = await readdir(dirname(this.filePath));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    return names
+      .map(name => ({ name, match: pattern.exec(name) }))
+      .filter((file): file is { name: string; match: RegExpExecArray } => file.match !== null)
+      .map(file => ({
+        path: join(dirname(this.filePath), file.name),
+        day: file.match[1] as string,
+        sequence: Number(file.match[2] ?? 0),
+      }))
+      .sort((a, b) => b.day.localeCompare(a.day) || b.sequence - a.sequence);
+  }
+
+  private async logFiles(): Promise<Array<{ path: string; day?: string }>> {
+    return [{ path: this.filePath }, ...await this.rotatedFiles()];
+  }
+
+  private async readLines(path: string): Promise<string[]> {
+    try {
+      return (await readFile(path, 'utf8')).split('\n').filter(line => line.trim() !== '');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      logger.error(`Failed to read audit log ${path}:`, error);
+      throw error;
+    }
+  }
+}
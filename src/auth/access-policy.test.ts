@@ -0,0 +1,182 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { AuditLog } from '../audit/audit-log.js';
+import { PipelineStore } from '../pipeline/pipeline-store.js';
+import { HexScheduler } from '../scheduler/scheduler.js';
+import { HexAuditTools } from '../tools/audit-tools.js';
+import { HexPipelineTools } from '../tools/pipeline-tools.js';
+import { HexProfileTools } from '../tools/profile-tools.js';
+import { HexScheduleTools } from '../tools/schedule-tools.js';
+import { HexConfig, HexProject } from '../types/index.js';
+import { ConfirmationTokens } from '../utils/dry-run.js';
+import { triggerRun } from '../utils/hex-api.js';
+import { AccessPolicy, isServerOnlyTool, RunBudget } from './access-policy.js';
+import { HexAuth } from './hex-auth.js';
+import { ProfileRegistry } from './profiles.js';
+
+type PolicySettings = Pick<HexConfig, 'readOnly' | 'projectAllowlist' | 'projectDenylist'>;
+
+const projects: Record<string, Partial<HexProject>> = {
+  p1: { projectId: 'p1', name: 'Revenue Daily', tags: ['Finance'] },
+  p2: { projectId: 'p2', name: 'Marketing Funnel', tags: ['marketing'] },
+};
+
+function fakeAuth(): HexAuth {
+  return {
+    isApiError: () => false,
+    makeRequest: jest.fn(async (endpoint: string, options: { method: string }) => {
+      if (options.method === 'POST') {
+        return { runId: 'r1' };
+      }
+      return projects[endpoint.split('/')[2] as string];
+    }),
+  } as unknown as HexAuth;
+}
+
+function createPolicy(settings: Partial<PolicySettings> = {}): AccessPolicy {
+  const pipelines = {
+    get: async () => ({ steps: [{ projectId: 'p1' }, { projectId: 'p2' }] }),
+  } as unknown as PipelineStore;
+  const scheduler = {
+    get: () => ({ projectId: 'p2' }),
+  } as unknown as HexScheduler;
+
+  return new AccessPolicy(pipelines, scheduler, {
+    readOnly: false,
+    projectAllowlist: [],
+    projectDenylist: [],
+    ...settings,
+  });
+}
+
+describe('AccessPolicy', () => {
+  it('lets read-only tools through without charging runs', async () => {
+    const policy = createPolicy({ readOnly: true, projectDenylist: ['p1'] });
+    expect(policy.allowsTool('hex_list_projects')).toBe(true);
+    await expect(policy.check('hex_get_project', { project_id: 'p1' }, fakeAuth())).resolves.toBe(0);
+  });
+
+  it('hides and refuses mutating tools in read-only mode', async () => {
+    const policy = createPolicy({ readOnly: true });
+    expect(policy.allowsTool('hex_run_project')).toBe(false);
+    await expect(policy.check('hex_cancel_run', { project_id: 'p1' }, fakeAuth())).rejects.toThrow('read-only mode');
+  });
+
+  it('returns the runs each call asks for', async () => {
+    const policy = createPolicy();
+    const auth = fakeAuth();
+
+    await expect(policy.check('hex_run_project', { project_id: 'p1' }, auth)).resolves.toBe(1);
+    await expect(policy.check('hex_parameter_sweep', { project_id: 'p1', sweep: { a: [1, 2], b: [1, 2, 3] } }, auth))
+      .resolves.toBe(6);
+    await expect(policy.check('hex_bulk_run_projects', { project_configs: [{ project_id: 'p1' }, { project_id: 'p2' }] }, auth))
+      .resolves.toBe(2);
+    await expect(policy.check('hex_run_pipeline', { name: 'nightly' }, auth)).resolves.toBe(2);
+    await expect(policy.check('hex_cancel_run', { project_id: 'p1' }, auth)).resolves.toBe(0);
+  });
+
+  it('charges nothing for dry runs but still applies the project rules', async () => {
+    const policy = createPolicy({ projectDenylist: ['p1'] });
+    await expect(policy.check('hex_run_project', { project_id: 'p2', dry_run: true }, fakeAuth())).resolves.toBe(0);
+    await expect(policy.check('hex_run_project', { project_id: 'p1', dry_run: true }, fakeAuth())).rejects.toThrow('HEX_PROJECT_DENYLIST');
+  });
+
+  it('matches allowlist entries by ID, tag and name pattern', async () => {
+    const auth = fakeAuth();
+
+    await expect(createPolicy({ projectAllowlist: ['p1'] }).check('hex_run_project', { project_id: 'p2' }, auth))
+      .rejects.toThrow('not allowed on project p2: it isn\'t in HEX_PROJECT_ALLOWLIST');
+    await expect(createPolicy({ projectAllowlist: ['tag:finance'] }).check('hex_run_project', { project_id: 'p1' }, auth))
+      .resolves.toBe(1);
+    await expect(createPolicy({ projectAllowlist: ['name:Revenue *'] }).check('hex_run_project', { project_id: 'p2' }, auth))
+      .rejects.toThrow('HEX_PROJECT_ALLOWLIST');
+  });
+
+  it('lets the denylist override the allowlist', async () => {
+    const policy = createPolicy({ projectAllowlist: ['tag:finance'], projectDenylist: ['name:*daily'] });
+    await expect(policy.check('hex_run_project', { project_id: 'p1' }, fakeAuth())).rejects.toThrow('HEX_PROJECT_DENYLIST');
+  });
+
+  it('only fetches projects when a tag or name rule needs them', async () => {
+    const auth = fakeAuth();
+    await createPolicy({ projectAllowlist: ['p1'] }).check('hex_run_project', { project_id: 'p1' }, auth);
+    expect(auth.makeRequest).not.toHaveBeenCalled();
+  });
+
+  it('checks every project a bulk run, pipeline or schedule change acts on', async () => {
+    const policy = createPolicy({ projectDenylist: ['p2'] });
+    const auth = fakeAuth();
+
+    await expect(policy.check('hex_bulk_run_projects', { project_configs: [{ project_id: 'p1' }, { project_id: 'p2' }] }, auth))
+      .rejects.toThrow('project p2');
+    await expect(policy.check('hex_run_pipeline', { name: 'nightly' }, auth)).rejects.toThrow('project p2');
+    await expect(policy.check('hex_delete_schedule', { schedule_id: 's1' }, auth)).rejects.toThrow('project p2');
+  });
+
+  it('refuses scheduled runs in read-only mode or on disallowed projects', async () => {
+    const auth = fakeAuth();
+
+    await expect(createPolicy({ readOnly: true }).checkScheduledRun('s1', 'p1', auth))
+      .rejects.toThrow('Schedule s1 was not run: the server is in read-only mode');
+    await expect(createPolicy({ projectDenylist: ['p1'] }).checkScheduledRun('s1', 'p1', auth))
+      .rejects.toThrow('Schedule s1 is not allowed on project p1');
+    await expect(createPolicy().checkScheduledRun('s1', 'p1', auth)).resolves.toBeUndefined();
+  });
+});
+
+describe('isServerOnlyTool', () => {
+  it('covers every schedule, profile and audit tool', () => {
+    const tools = [
+      ...new HexScheduleTools({} as HexScheduler).getToolDefinitions(),
+      ...new HexProfileTools({} as ProfileRegistry).getToolDefinitions(),
+      ...new HexAuditTools({} as AuditLog).getToolDefinitions(),
+    ];
+
+    expect(tools.filter(tool => !isServerOnlyTool(tool.name))).toEqual([]);
+  });
+
+  it('covers the pipeline tools that change the shared pipeline file, but not the others', () => {
+    const pipelineTools = new HexPipelineTools(fakeAuth(), {} as PipelineStore, new ConfirmationTokens()).getToolDefinitions();
+
+    expect(pipelineTools.map(tool => tool.name).filter(isServerOnlyTool)).toEqual(['hex_save_pipeline', 'hex_delete_pipeline']);
+  });
+
+  it('leaves project and run tools to every session', () => {
+    expect(isServerOnlyTool('hex_run_project')).toBe(false);
+    expect(isServerOnlyTool('hex_list_projects')).toBe(false);
+  });
+});
+
+describe('RunBudget', () => {
+  it('refuses calls that would exceed the budget before they run', async () => {
+    const budget = new RunBudget(2);
+    const operation = jest.fn(async () => 'done');
+
+    await expect(budget.charge(3, operation)).rejects.toThrow('only 2 of this session\'s 2 run budget');
+    expect(operation).not.toHaveBeenCalled();
+  });
+
+  it('keeps the runs that started and gives back the rest', async () => {
+    const budget = new RunBudget(2);
+    const auth = fakeAuth();
+
+    // Asked for two runs but started one
+    await budget.charge(2, async () => triggerRun(auth, { projectId: 'p1' }));
+    await expect(budget.charge(2, async () => undefined)).rejects.toThrow('only 1 of');
+    await expect(budget.charge(1, async () => triggerRun(auth, { projectId: 'p1' }))).resolves.toEqual({ runId: 'r1' });
+    await expect(budget.charge(1, async () => undefined)).rejects.toThrow('only 0 of');
+  });
+
+  it('gives back every run when the call fails before starting any', async () => {
+    const budget = new RunBudget(1);
+
+    await expect(budget.charge(1, async () => {
+      throw new Error('invalid input');
+    })).rejects.toThrow('invalid input');
+    await expect(budget.charge(1, async () => 'ok')).resolves.toBe('ok');
+  });
+
+  it('does not limit sessions when the budget is 0', async () => {
+    const budget = new RunBudget(0);
+    await expect(budget.charge(1_000, async () => 'ok')).resolves.toBe('ok');
+  });
+});
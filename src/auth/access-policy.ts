@@ -0,0 +1,256 @@
+import { HexConfig, HexProject } from '../types/index.js';
+import { PipelineStore } from '../pipeline/pipeline-store.js';
+import { HexScheduler } from '../scheduler/scheduler.js';
+import { config } from '../utils/config.js';
+import { countRunsStarted, getProject } from '../utils/hex-api.js';
+import { HexAuth } from './hex-auth.js';
+
+/** Tools that start, cancel or schedule runs, or change saved pipelines. */
+const MUTATING_TOOLS = new Set([
+  'hex_run_project',
+  'hex_rerun',
+  'hex_parameter_sweep',
+  'hex_cancel_run',
+  'hex_bulk_run_projects',
+  'hex_schedule_project_run',
+  'hex_pause_schedule',
+  'hex_resume_schedule',
+  'hex_delete_schedule',
+  'hex_run_pipeline',
+  'hex_save_pipeline',
+  'hex_delete_pipeline',
+]);
+
+/**
+ * Tools that read or change state the server keeps for every user: its
+ * schedules, profiles, audit log and saved pipelines. Sessions opened with a
+ * client's own Hex token can't use them.
+ */
+const SERVER_ONLY_TOOLS = new Set([
+  'hex_schedule_project_run',
+  'hex_list_schedules',
+  'hex_pause_schedule',
+  'hex_resume_schedule',
+  'hex_delete_schedule',
+  'hex_list_profiles',
+  'hex_audit_query',
+  'hex_save_pipeline',
+  'hex_delete_pipeline',
+]);
+
+type ProjectRule =
+  | { kind: 'id'; projectId: string }
+  | { kind: 'tag'; tag: string }
+  | { kind: 'name'; pattern: RegExp };
+
+/** What a mutating tool call would act on. */
+interface ToolTargets {
+  projectIds: string[];
+  /** Runs the call asks for, counted against the session budget. */
+  runs: number;
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('')
+    .map(char => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+function parseRule(entry: string): ProjectRule {
+  const match = /^(tag|name):(.*)$/.exec(entry);
+  if (!match) {
+    return { kind: 'id', projectId: entry };
+  }
+
+  const value = (match[2] as string).trim();
+  return match[1] === 'tag'
+    ? { kind: 'tag', tag: value.toLowerCase() }
+    : { kind: 'name', pattern: globToRegExp(value) };
+}
+
+function matchesRule(rule: ProjectRule, projectId: string, project: HexProject | undefined): boolean {
+  switch (rule.kind) {
+    case 'id':
+      return rule.projectId === projectId;
+    case 'tag':
+      return (project?.tags || []).some(tag => tag.toLowerCase() === rule.tag);
+    case 'name':
+      return project !== undefined && rule.pattern.test(project.name);
+  }
+}
+
+function projectIdsOf(items: unknown): string[] {
+  return Array.isArray(items)
+    ? items.map(item => (item as { project_id?: unknown } | null)?.project_id).filter((id): id is string => typeof id === 'string')
+    : [];
+}
+
+function sweepSize(sweep: unknown): number {
+  if (typeof sweep !== 'object' || sweep === null) {
+    return 0;
+  }
+  return Object.values(sweep).reduce<number>((size, values) => size * (Array.isArray(values) ? values.length : 0), 1);
+}
+
+export function isMutatingTool(name: string): boolean {
+  return MUTATING_TOOLS.has(name);
+}
+
+export function isServerOnlyTool(name: string): boolean {
+  return SERVER_ONLY_TOOLS.has(name);
+}
+
+/** Counts the runs started by one client session against `HEX_MAX_RUNS_PER_SESSION`. */
+export class RunBudget {
+  private used = 0;
+
+  constructor(private limit: number = config.maxRunsPerSession) {}
+
+  /**
+   * Runs `operation` with `runs` taken from the budget, throwing before it
+   * starts if there aren't enough left. Afterwards the runs it didn't start,
+   * e.g. because it failed validation, the API rejected a run or a bulk run
+   * stopped early, are given back, so only runs that started count.
+   */
+  async charge<T>(runs: number, operation: () => Promise<T>): Promise<T> {
+    this.reserve(runs);
+
+    const counter = { started: 0 };
+    try {
+      return await countRunsStarted(counter, operation);
+    } finally {
+      if (this.limit !== 0) {
+        this.used -= Math.max(0, runs - counter.started);
+      }
+    }
+  }
+
+  private reserve(runs: number): void {
+    if (this.limit === 0 || runs === 0) {
+      return;
+    }
+
+    if (this.used + runs > this.limit) {
+      throw new Error(
+        `This call would start ${runs} run${runs !== 1 ? 's' : ''}, but only ${this.limit - this.used} of this session's ` +
+        `${this.limit} run budget (HEX_MAX_RUNS_PER_SESSION) ${this.limit - this.used !== 1 ? 'are' : 'is'} left`
+      );
+    }
+    this.used += runs;
+  }
+}
+
+/**
+ * Server-wide safety settings for mutating tools: read-only mode, which
+ * projects they may act on, and (through `RunBudget`) how many runs a
+ * session may start. Read-only tools are never restricted.
+ */
+export class AccessPolicy {
+  private allowRules: ProjectRule[];
+  private denyRules: ProjectRule[];
+
+  constructor(
+    private pipelines: PipelineStore,
+    private scheduler: HexScheduler,
+    private settings: Pick<HexConfig, 'readOnly' | 'projectAllowlist' | 'projectDenylist'> = config
+  ) {
+    this.allowRules = settings.projectAllowlist.map(parseRule);
+    this.denyRules = settings.projectDenylist.map(parseRule);
+  }
+
+  /** Whether the tool is listed at all; read-only mode hides mutating tools. */
+  allowsTool(name: string): boolean {
+    return !(this.settings.readOnly && isMutatingTool(name));
+  }
+
+  /**
+   * Throws if the call isn't allowed: a mutating tool in read-only mode, or
+   * one acting on a project outside the allowlist or on the denylist.
+   * Returns the runs the call asks for, to charge to the session's
+   * `RunBudget`.
+   */
+  async check(name: string, args: Record<string, unknown>, auth: HexAuth): Promise<number> {
+    if (!isMutatingTool(name)) {
+      return 0;
+    }
+
+    if (this.settings.readOnly) {
+      throw new Error(`${name} is not available: the server is in read-only mode (HEX_READ_ONLY)`);
+    }
+
+    const targets = await this.targetsOf(name, args);
+
+    for (const projectId of new Set(targets.projectIds)) {
+      await this.checkProject(name, projectId, auth);
+    }
+
+    // A dry run changes nothing, so it only has to pass the project rules
+    return args.dry_run === true ? 0 : targets.runs;
+  }
+
+  /**
+   * Throws if a schedule may not fire. Schedules are checked again each
+   * time they fire, so one created before read-only mode or a project rule
+   * was set can't get around it.
+   */
+  async checkScheduledRun(scheduleId: string, projectId: string, auth: HexAuth): Promise<void> {
+    const name = `Schedule ${scheduleId}`;
+
+    if (this.settings.readOnly) {
+      throw new Error(`${name} was not run: the server is in read-only mode (HEX_READ_ONLY)`);
+    }
+
+    await this.checkProject(name, projectId, auth);
+  }
+
+  private async checkProject(name: string, projectId: string, auth: HexAuth): Promise<void> {
+    const rules = [...this.allowRules, ...this.denyRules];
+    // Tag and name rules need the project itself; ID rules don't
+    const project = rules.some(rule => rule.kind !== 'id') ? await getProject(auth, projectId) : undefined;
+
+    if (this.denyRules.some(rule => matchesRule(rule, projectId, project))) {
+      throw new Error(`${name} is not allowed on project ${projectId}: it matches HEX_PROJECT_DENYLIST`);
+    }
+
+    if (this.allowRules.length > 0 && !this.allowRules.some(rule => matchesRule(rule, projectId, project))) {
+      throw new Error(`${name} is not allowed on project ${projectId}: it isn't in HEX_PROJECT_ALLOWLIST`);
+    }
+  }
+
+  private async targetsOf(name: string, args: Record<string, unknown>): Promise<ToolTargets> {
+    const projectId = typeof args.project_id === 'string' ? [args.project_id] : [];
+
+    switch (name) {
+      case 'hex_run_project':
+      case 'hex_rerun':
+        return { projectIds: projectId, runs: 1 };
+      case 'hex_parameter_sweep':
+        return { projectIds: projectId, runs: sweepSize(args.sweep) };
+      case 'hex_bulk_run_projects': {
+        const projectIds = projectIdsOf(args.project_configs);
+        return { projectIds, runs: projectIds.length };
+      }
+      case 'hex_run_pipeline': {
+        const projectIds = typeof args.name === 'string' && args.steps === undefined
+          ? (await this.pipelines.get(args.name)).steps.map(step => step.projectId)
+          : projectIdsOf(args.steps);
+        return { projectIds, runs: projectIds.length };
+      }
+      case 'hex_save_pipeline':
+        return { projectIds: projectIdsOf(args.steps), runs: 0 };
+      case 'hex_pause_schedule':
+      case 'hex_resume_schedule':
+      case 'hex_delete_schedule':
+        return {
+          projectIds: typeof args.schedule_id === 'string' ? [this.scheduler.get(args.schedule_id).projectId] : [],
+          runs: 0,
+        };
+      default:
+        // hex_cancel_run and hex_schedule_project_run act on project_id; scheduled runs fire outside any
+        // session's budget and are checked by checkScheduledRun when they do
+        return { projectIds: projectId, runs: 0 };
+    }
+  }
+}
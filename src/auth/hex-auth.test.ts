@@ -0,0 +1,169 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { config } from '../utils/config.js';
+import { RateLimiter } from '../utils/rate-limiter.js';
+import { HexAuth } from './hex-auth.js';
+
+type FetchMock = jest.SpiedFunction<typeof fetch>;
+
+function jsonResponse(status: number, body: unknown = {}, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers });
+}
+
+describe('HexAuth requests', () => {
+  let fetchMock: FetchMock;
+
+  async function createAuth(): Promise<HexAuth> {
+    const auth = new HexAuth({
+      ...config,
+      apiToken: 'test-token',
+      baseUrl: 'https://hex.test/api/v1/',
+      maxRetries: 2,
+      rateLimitPerMinute: 60_000,
+      rateLimitBurst: 100,
+    });
+    fetchMock.mockResolvedValueOnce(jsonResponse(200, { projects: [] }));
+    await auth.initialize();
+    fetchMock.mockClear();
+    return auth;
+  }
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(globalThis, 'fetch');
+    // Zero jitter keeps backoff delays at 0ms
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(console, 'info').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('retries server errors on idempotent requests', async () => {
+    const auth = await createAuth();
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(503))
+      .mockResolvedValueOnce(jsonResponse(200, { runId: 'r1' }));
+
+    await expect(auth.makeRequest('/projects/p1/runs', { method: 'GET', noCache: true })).resolves.toEqual({ runId: 'r1' });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('retries network failures on idempotent requests', async () => {
+    const auth = await createAuth();
+    fetchMock
+      .mockRejectedValueOnce(new Error('socket hang up'))
+      .mockResolvedValueOnce(jsonResponse(200, { runs: [] }));
+
+    await expect(auth.makeRequest('/projects/p1/runs', { method: 'GET' })).resolves.toEqual({ runs: [] });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry server errors or network failures when starting runs', async () => {
+    const auth = await createAuth();
+    fetchMock.mockResolvedValueOnce(jsonResponse(500));
+
+    await expect(auth.makeRequest('/projects/p1/runs', { method: 'POST', body: {} }))
+      .rejects.toThrow('Hex API server error (500). Please try again later.');
+
+    fetchMock.mockRejectedValueOnce(new Error('socket hang up'));
+    await expect(auth.makeRequest('/projects/p1/runs', { method: 'POST', body: {} }))
+      .rejects.toThrow('Network error: socket hang up');
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('retries rate-limited requests, pausing every caller for Retry-After', async () => {
+    const auth = await createAuth();
+    const pause = jest.spyOn(RateLimiter.prototype, 'pause');
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(429, {}, { 'Retry-After': '0' }))
+      .mockResolvedValueOnce(jsonResponse(200, { runId: 'r1' }));
+
+    await expect(auth.makeRequest('/projects/p1/runs', { method: 'POST', body: {} })).resolves.toEqual({ runId: 'r1' });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(pause).toHaveBeenCalledWith(0);
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    const auth = await createAuth();
+    fetchMock.mockImplementation(async () => jsonResponse(429, {}, { 'Retry-After': '0' }));
+
+    await expect(auth.makeRequest('/projects', { method: 'GET', noCache: true }))
+      .rejects.toThrow('gave up after 3 attempt(s)');
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('returns client errors as API errors without retrying', async () => {
+    const auth = await createAuth();
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(404, { error: { code: 'NOT_FOUND', message: 'Project not found' } }))
+      .mockResolvedValueOnce(jsonResponse(400, 'bad'));
+
+    await expect(auth.makeRequest('/projects/missing', { method: 'GET' }))
+      .resolves.toEqual({ error: { code: 'NOT_FOUND', message: 'Project not found' } });
+    await expect(auth.makeRequest('/projects/bad', { method: 'GET' }))
+      .resolves.toEqual({ error: { code: 'HTTP_400', message: 'Request failed with status 400' } });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports a rejected token', async () => {
+    const auth = await createAuth();
+    fetchMock.mockResolvedValueOnce(jsonResponse(401));
+
+    await expect(auth.makeRequest('/projects', { method: 'GET' }))
+      .rejects.toThrow('Authentication failed. Please check your HEX_API_TOKEN.');
+  });
+
+  describe('caching', () => {
+    it('serves repeated project reads from the cache', async () => {
+      const auth = await createAuth();
+      fetchMock.mockResolvedValueOnce(jsonResponse(200, { projectId: 'p1', title: 'Revenue' }));
+
+      await auth.makeRequest('/projects/p1', { method: 'GET' });
+      await expect(auth.makeRequest('/projects/p1', { method: 'GET' })).resolves.toEqual({ projectId: 'p1', title: 'Revenue' });
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(auth.getCacheStats()).toMatchObject({ entries: 1, hits: 1 });
+    });
+
+    it('bypasses the cache when asked to', async () => {
+      const auth = await createAuth();
+      fetchMock.mockImplementation(async () => jsonResponse(200, { projectId: 'p1' }));
+
+      await auth.makeRequest('/projects/p1', { method: 'GET' });
+      await auth.makeRequest('/projects/p1', { method: 'GET', noCache: true });
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('caches finished runs but not runs in progress', async () => {
+      const auth = await createAuth();
+      fetchMock.mockImplementation(async input => jsonResponse(200, {
+        runId: String(input).endsWith('/done') ? 'done' : 'live',
+        status: String(input).endsWith('/done') ? 'SUCCESS' : 'RUNNING',
+      }));
+
+      for (let i = 0; i < 2; i++) {
+        await auth.makeRequest('/projects/p1/runs/done', { method: 'GET' });
+        await auth.makeRequest('/projects/p1/runs/live', { method: 'GET' });
+      }
+
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('drops a project\'s cached responses after a mutation', async () => {
+      const auth = await createAuth();
+      fetchMock.mockImplementation(async () => jsonResponse(200, { projectId: 'p1', runId: 'r1' }));
+
+      await auth.makeRequest('/projects/p1', { method: 'GET' });
+      await auth.makeRequest('/projects/p2', { method: 'GET' });
+      await auth.makeRequest('/projects/p1/runs', { method: 'POST', body: {} });
+
+      expect(auth.getCacheStats().entries).toBe(1);
+      await auth.makeRequest('/projects/p1', { method: 'GET' });
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+    });
+  });
+});
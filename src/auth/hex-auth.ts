@@ -1,18 +1,72 @@
-import { HexConfig, HexApiResponse, HexApiError } from '../types/index.js';
+import { recordApiRequest } from '../audit/audit-log.js';
+import { HexConfig, HexApiResponse, HexApiError, HexProjectRun, HexRequestOptions } from '../types/index.js';
+import { CacheStats, TtlCache } from '../utils/cache.js';
+import { sleep } from '../utils/concurrency.js';
 import { config, validateConfig } from '../utils/config.js';
+import { isTerminalRunStatus } from '../utils/hex-api.js';
 import { logger } from '../utils/logger.js';
+import { RateLimiter } from '../utils/rate-limiter.js';
+
+const BASE_BACKOFF_MS = 1_000;
+const MAX_BACKOFF_MS = 30_000;
+
+type CachedEndpoint = 'projectList' | 'project' | 'run';
+
+/** Classifies GET endpoints whose responses may be cached; anything else always hits the API. */
+function cachedEndpoint(endpoint: string): CachedEndpoint | undefined {
+  if (/^\/projects\/?$/.test(endpoint)) {
+    return 'projectList';
+  }
+  if (/^\/projects\/[^/]+$/.test(endpoint)) {
+    return 'project';
+  }
+  if (/^\/projects\/[^/]+\/runs\/[^/]+$/.test(endpoint)) {
+    return 'run';
+  }
+  return undefined;
+}
+
+function cacheKey(endpoint: string, params?: Record<string, string | number>): string {
+  const query = Object.entries(params || {})
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+    .join('&');
+  return query ? `${endpoint}?${query}` : endpoint;
+}
+
+/** Parses a Retry-After header given either as seconds or as an HTTP date. */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
 
 export class HexAuth {
   private config: HexConfig;
   private initialized = false;
+  private rateLimiter: RateLimiter;
+  private cache: TtlCache<unknown>;
 
-  constructor() {
-    this.config = config;
+  constructor(authConfig: HexConfig = config) {
+    this.config = authConfig;
+    this.cache = new TtlCache(this.config.cacheMaxEntries);
+    this.rateLimiter = new RateLimiter({
+      requestsPerMinute: this.config.rateLimitPerMinute,
+      burst: this.config.rateLimitBurst,
+    });
   }
 
   async initialize(): Promise<void> {
     try {
-      validateConfig();
+      validateConfig(this.config);
       await this.validateConnection();
       this.initialized = true;
       logger.info('Hex authentication initialized successfully');
@@ -24,7 +78,7 @@ export class HexAuth {
 
   private async validateConnection(): Promise<void> {
     try {
-      const response = await this.makeRequest('/projects', {
+      const response = await this.request('/projects', {
         method: 'GET',
         params: { limit: 1 },
       });
@@ -44,18 +98,77 @@ export class HexAuth {
     }
   }
 
-  async makeRequest<T>(
-    endpoint: string,
-    options: {
-      method: 'GET' | 'POST' | 'PUT' | 'DELETE';
-      body?: unknown;
-      params?: Record<string, string | number>;
-    }
-  ): Promise<HexApiResponse<T>> {
+  async makeRequest<T>(endpoint: string, options: HexRequestOptions): Promise<HexApiResponse<T>> {
     if (!this.initialized) {
       throw new Error('Hex authentication not initialized. Call initialize() first.');
     }
 
+    const cached = options.method === 'GET' && !options.noCache ? cachedEndpoint(endpoint) : undefined;
+    const key = cacheKey(endpoint, options.params);
+
+    if (cached) {
+      const hit = this.cache.get(key);
+      if (hit !== undefined) {
+        logger.debug(`Cache hit for ${key}`);
+        return hit as T;
+      }
+    }
+
+    const response = await this.request<T>(endpoint, options);
+
+    if (cached && !this.isApiError(response)) {
+      this.cache.set(key, response, this.cacheTtlFor(cached, response));
+    } else if (options.method !== 'GET') {
+      this.invalidateAfterMutation(endpoint);
+    }
+
+    return response;
+  }
+
+  getCacheStats(): CacheStats {
+    return this.cache.stats();
+  }
+
+  /** Drops cached responses, optionally only those for one project. Returns the number removed. */
+  clearCache(projectId?: string): number {
+    if (!projectId) {
+      return this.cache.invalidate();
+    }
+    const prefix = `/projects/${projectId}`;
+    return this.cache.invalidate(key => key === prefix || key.startsWith(`${prefix}/`) || key.startsWith(`${prefix}?`));
+  }
+
+  private cacheTtlFor(endpoint: CachedEndpoint, response: unknown): number {
+    switch (endpoint) {
+      case 'projectList':
+        return this.config.cacheProjectListTtlMs;
+      case 'project':
+        return this.config.cacheProjectTtlMs;
+      case 'run':
+        // Only finished runs are immutable; in-flight runs are always fetched fresh
+        return isTerminalRunStatus((response as HexProjectRun).status) ? this.config.cacheCompletedRunTtlMs : 0;
+    }
+  }
+
+  private invalidateAfterMutation(endpoint: string): void {
+    const projectId = endpoint.match(/^\/projects\/([^/?]+)/)?.[1];
+    if (!projectId) {
+      return;
+    }
+
+    const removed = this.clearCache(projectId);
+    if (removed > 0) {
+      logger.debug(`Invalidated ${removed} cached response(s) after ${endpoint}`);
+    }
+  }
+
+  /**
+   * Sends a request through the shared rate limiter, retrying rate-limit
+   * responses, 5xx errors and network failures with exponential backoff and
+   * jitter. Non-idempotent requests only retry 429s, which the API rejects
+   * before doing any work.
+   */
+  private async request<T>(endpoint: string, options: HexRequestOptions): Promise<HexApiResponse<T>> {
     const url = new URL(endpoint, this.config.baseUrl);
     
     if (options.params) {
@@ -64,69 +177,133 @@ export class HexAuth {
       });
     }
 
-    const requestOptions: RequestInit = {
-      method: options.method,
-      headers: {
-        'Authorization': `Bearer ${this.config.apiToken}`,
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-      signal: AbortSignal.timeout(this.config.timeout),
-    };
-
-    if (options.body && options.method !== 'GET') {
-      requestOptions.body = JSON.stringify(options.body);
-    }
+    const idempotent = options.idempotent ?? options.method !== 'POST';
+    const maxRetries = options.retries ?? this.config.maxRetries;
 
-    logger.debug(`Making ${options.method} request to ${url.toString()}`);
+    for (let attempt = 0; ; attempt++) {
+      const requestOptions: RequestInit = {
+        method: options.method,
+        headers: {
+          'Authorization': `Bearer ${this.config.apiToken}`,
+          'Content-Type': 'application/json',
+          'Accept': 'application/json',
+        },
+        signal: AbortSignal.timeout(this.config.timeout),
+      };
 
-    try {
-      const response = await fetch(url.toString(), requestOptions);
-      const responseData = await response.json();
+      if (options.body && options.method !== 'GET') {
+        requestOptions.body = JSON.stringify(options.body);
+      }
 
-      if (!response.ok) {
-        logger.error(`API request failed with status ${response.status}:`, responseData);
-        
-        if (response.status === 429) {
-          throw new Error(
-            'Rate limit exceeded. Hex API allows 60 requests per minute. Please wait and try again.'
-          );
-        }
-        
-        if (response.status === 401) {
-          throw new Error(
-            'Authentication failed. Please check your HEX_API_TOKEN.'
-          );
+      await this.rateLimiter.acquire();
+
+      logger.debug(`Making ${options.method} request to ${url.toString()}${attempt > 0 ? ` (retry ${attempt})` : ''}`);
+
+      const auditEndpoint = `${endpoint}${url.search}`;
+      const sentAt = Date.now();
+
+      let response: Response;
+      try {
+        response = await fetch(url.toString(), requestOptions);
+      } catch (error) {
+        const message = error instanceof Error && error.name === 'TimeoutError'
+          ? `Request timeout after ${this.config.timeout}ms`
+          : `Network error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+
+        recordApiRequest({ method: options.method, endpoint: auditEndpoint, durationMs: Date.now() - sentAt, error: message });
+
+        if (idempotent && attempt < maxRetries) {
+          const delay = this.backoffDelay(attempt);
+          logger.warn(`${message}; retrying in ${delay}ms`);
+          await sleep(delay);
+          continue;
         }
-        
-        if (response.status >= 500) {
-          throw new Error(
-            'Hex API server error. Please try again later.'
-          );
+
+        throw new Error(message);
+      }
+
+      const responseData = await this.parseBody(response);
+      recordApiRequest({ method: options.method, endpoint: auditEndpoint, status: response.status, durationMs: Date.now() - sentAt });
+
+      if (response.ok) {
+        logger.debug(`API request successful:`, responseData);
+        return responseData as T;
+      }
+
+      const retryable = response.status === 429 || (idempotent && response.status >= 500);
+      if (retryable && attempt < maxRetries) {
+        const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+        const delay = retryAfter ?? this.backoffDelay(attempt);
+
+        if (response.status === 429) {
+          // Hold back every caller, not just this one, until the API accepts requests again
+          this.rateLimiter.pause(delay);
         }
 
-        return responseData as HexApiError;
+        logger.warn(`API request failed with status ${response.status}; retrying in ${delay}ms`);
+        await sleep(delay);
+        continue;
       }
 
-      logger.debug(`API request successful:`, responseData);
-      return responseData as T;
-    } catch (error) {
-      if (error instanceof Error && error.name === 'TimeoutError') {
-        throw new Error(`Request timeout after ${this.config.timeout}ms`);
+      logger.error(`API request failed with status ${response.status}:`, responseData);
+
+      if (response.status === 429) {
+        throw new Error(
+          `Rate limit exceeded. Hex API allows 60 requests per minute; gave up after ${attempt + 1} attempt(s).`
+        );
       }
-      throw error;
+
+      if (response.status === 401) {
+        throw new Error(
+          'Authentication failed. Please check your HEX_API_TOKEN.'
+        );
+      }
+
+      if (response.status >= 500) {
+        throw new Error(
+          `Hex API server error (${response.status})${idempotent ? ` after ${attempt + 1} attempt(s)` : ''}. Please try again later.`
+        );
+      }
+
+      if (this.isApiError(responseData)) {
+        return responseData;
+      }
+
+      return {
+        error: {
+          code: `HTTP_${response.status}`,
+          message: `Request failed with status ${response.status}`,
+        },
+      };
     }
   }
 
+  private async parseBody(response: Response): Promise<unknown> {
+    const text = await response.text();
+    if (!text) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(text);
+    } catch {
+      return { message: text };
+    }
+  }
+
+  private backoffDelay(attempt: number): number {
+    // Full jitter: a random delay up to the exponential cap
+    const cap = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+    return Math.round(Math.random() * cap);
+  }
+
   isApiError(response: unknown): response is HexApiError {
-    return (
-      typeof response === 'object' &&
-      response !== null &&
-      'error' in response &&
-      typeof (response as any).error === 'object' &&
-      'code' in (response as any).error &&
-      'message' in (response as any).error
-    );
+    if (typeof response !== 'object' || response === null || !('error' in response)) {
+      return false;
+    }
+
+    const { error } = response;
+    return typeof error === 'object' && error !== null && 'code' in error && 'message' in error;
   }
 
   getConfig(): HexConfig {
@@ -0,0 +1,215 @@
+import { createHash } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { HexConfig } from '../types/index.js';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { HexAuth } from './hex-auth.js';
+
+/** A profile as written in the profiles file. */
+export interface HexProfileDefinition {
+  /** The token itself, or `apiTokenEnv` to read it from an environment variable. */
+  apiToken?: string;
+  apiTokenEnv?: string;
+  baseUrl?: string;
+  description?: string;
+  /** Default tool arguments for calls using this profile, e.g. `{"output_format": "json"}`. */
+  defaults?: Record<string, unknown>;
+}
+
+export interface HexProfileInfo {
+  name: string;
+  baseUrl: string;
+  description?: string;
+  isDefault: boolean;
+  /** Where the token comes from; the token itself is never exposed. */
+  tokenSource: string;
+  defaults: Record<string, unknown>;
+  connected: boolean;
+}
+
+interface Profile {
+  name: string;
+  config: HexConfig;
+  description?: string;
+  defaults: Record<string, unknown>;
+  tokenSource: string;
+  auth?: Promise<HexAuth>;
+}
+
+/** The profile built from HEX_API_TOKEN and HEX_API_BASE_URL. */
+export const ENV_PROFILE = 'default';
+
+// Clients connecting with their own token each get a HexAuth; the least recently used are dropped beyond this
+const MAX_CLIENT_TOKENS = 100;
+
+async function connect(profileConfig: HexConfig): Promise<HexAuth> {
+  const auth = new HexAuth(profileConfig);
+  await auth.initialize();
+  return auth;
+}
+
+function tokenKey(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/** Identifies a client's Hex token in the audit log without recording the token. */
+export function clientTokenId(token: string): string {
+  return tokenKey(token).slice(0, 12);
+}
+
+/** Extends a tool's input schema with the `profile` argument. */
+export function withProfileOption(tool: Tool, profileNames: string[], defaultProfile: string): Tool {
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...tool.inputSchema.properties,
+        profile: {
+          type: 'string',
+          enum: profileNames,
+          description: `Hex workspace profile to run this call with (default: ${defaultProfile}); see hex_list_profiles`,
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Named Hex connections: the environment configuration plus any profiles in
+ * the profiles file. Each profile gets its own `HexAuth`, and with it its own
+ * cache and rate limiter, created on first use. Clients of the HTTP transport
+ * that send their own token get a separate `HexAuth` per token.
+ */
+export class ProfileRegistry {
+  private profiles = new Map<string, Profile>();
+  private clientTokens = new Map<string, Promise<HexAuth>>();
+  private defaultName = ENV_PROFILE;
+
+  constructor(private filePath: string, private baseConfig: HexConfig = config) {}
+
+  async load(): Promise<void> {
+    if (this.baseConfig.apiToken) {
+      this.profiles.set(ENV_PROFILE, {
+        name: ENV_PROFILE,
+        config: this.baseConfig,
+        defaults: {},
+        tokenSource: 'HEX_API_TOKEN',
+      });
+    }
+
+    const file = await this.readFile();
+
+    Object.entries(file.profiles || {}).forEach(([name, definition]) => {
+      const apiToken = definition.apiToken ?? (definition.apiTokenEnv ? process.env[definition.apiTokenEnv] : undefined);
+      if (!apiToken) {
+        throw new Error(
+          `Profile "${name}" in ${this.filePath} has no API token. ` +
+          `Set apiToken, or apiTokenEnv to the name of an environment variable holding it${definition.apiTokenEnv ? ` (${definition.apiTokenEnv} is not set)` : ''}.`
+        );
+      }
+
+      this.profiles.set(name, {
+        name,
+        config: { ...this.baseConfig, apiToken, baseUrl: definition.baseUrl || this.baseConfig.baseUrl },
+        ...(definition.description && { description: definition.description }),
+        defaults: definition.defaults || {},
+        tokenSource: definition.apiTokenEnv ?? 'profiles file',
+      });
+    });
+
+    if (this.profiles.size === 0) {
+      throw new Error(
+        'HEX_API_TOKEN environment variable is required. ' +
+        `Please set it in your .env file or environment variables, or define profiles in ${this.filePath}.`
+      );
+    }
+
+    this.defaultName = file.defaultProfile ?? (this.profiles.has(ENV_PROFILE) ? ENV_PROFILE : [...this.profiles.keys()][0] as string);
+    if (!this.profiles.has(this.defaultName)) {
+      throw new Error(`defaultProfile "${this.defaultName}" in ${this.filePath} is not a defined profile`);
+    }
+
+    logger.info(`Loaded ${this.profiles.size} profile(s); default is "${this.defaultName}"`);
+  }
+
+  get defaultProfile(): string {
+    return this.defaultName;
+  }
+
+  names(): string[] {
+    return [...this.profiles.keys()];
+  }
+
+  /** Returns the profile's connection, initializing it on first use. */
+  resolve(name: string = this.defaultName): Promise<HexAuth> {
+    const profile = this.profiles.get(name);
+    if (!profile) {
+      return Promise.reject(new Error(`Unknown profile: ${name}. Available profiles: ${this.names().join(', ')}`));
+    }
+
+    if (!profile.auth) {
+      profile.auth = connect(profile.config);
+      // Let a later call retry instead of caching the failure
+      profile.auth.catch(() => {
+        delete profile.auth;
+      });
+    }
+
+    return profile.auth;
+  }
+
+  defaultsFor(name: string = this.defaultName): Record<string, unknown> {
+    return { ...this.profiles.get(name)?.defaults };
+  }
+
+  list(): HexProfileInfo[] {
+    return [...this.profiles.values()].map(profile => ({
+      name: profile.name,
+      baseUrl: profile.config.baseUrl,
+      ...(profile.description && { description: profile.description }),
+      isDefault: profile.name === this.defaultName,
+      tokenSource: profile.tokenSource,
+      defaults: profile.defaults,
+      connected: profile.auth !== undefined,
+    }));
+  }
+
+  /**
+   * Connection for a client's own Hex token, against the default profile's
+   * base URL. The token is checked against the API before it is used.
+   */
+  forClientToken(token: string): Promise<HexAuth> {
+    const key = tokenKey(token);
+    let auth = this.clientTokens.get(key);
+
+    if (auth) {
+      // Re-insert to mark it most recently used
+      this.clientTokens.delete(key);
+    } else {
+      const baseUrl = this.profiles.get(this.defaultName)?.config.baseUrl ?? this.baseConfig.baseUrl;
+      auth = connect({ ...this.baseConfig, apiToken: token, baseUrl });
+      auth.catch(() => this.clientTokens.delete(key));
+    }
+
+    this.clientTokens.set(key, auth);
+    if (this.clientTokens.size > MAX_CLIENT_TOKENS) {
+      this.clientTokens.delete(this.clientTokens.keys().next().value as string);
+    }
+
+    return auth;
+  }
+
+  private async readFile(): Promise<{ defaultProfile?: string; profiles?: Record<string, HexProfileDefinition> }> {
+    try {
+      return JSON.parse(await readFile(this.filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      logger.error(`Failed to read profiles file ${this.filePath}:`, error);
+      throw error;
+    }
+  }
+}
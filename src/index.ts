@@ -6,25 +6,113 @@ import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
   CallToolResult,
   Tool,
-  Resource,
 } from '@modelcontextprotocol/sdk/types.js';
+import { randomUUID } from 'node:crypto';
+import { AuditLog, AuditSubject, sanitizeArguments } from './audit/audit-log.js';
+import { AccessPolicy, isServerOnlyTool, RunBudget } from './auth/access-policy.js';
 import { HexAuth } from './auth/hex-auth.js';
+import { clientTokenId, ProfileRegistry, withProfileOption } from './auth/profiles.js';
 import { HexProjectTools } from './tools/project-tools.js';
 import { HexExecutionTools } from './tools/execution-tools.js';
+import { HexScheduleTools } from './tools/schedule-tools.js';
+import { HexCacheTools } from './tools/cache-tools.js';
+import { HexPipelineTools } from './tools/pipeline-tools.js';
+import { HexProfileTools } from './tools/profile-tools.js';
+import { HexAuditTools } from './tools/audit-tools.js';
+import { HexResources } from './resources/hex-resources.js';
+import { RunSubscriptionManager } from './resources/run-subscriptions.js';
+import { HexScheduler } from './scheduler/scheduler.js';
+import { ScheduleStore } from './scheduler/schedule-store.js';
+import { PipelineStore } from './pipeline/pipeline-store.js';
+import { HexHttpServer } from './transport/http-server.js';
+import { HexAuditEntry, ToolCallContext } from './types/index.js';
+import { ConfirmationTokens } from './utils/dry-run.js';
 import { logger } from './utils/logger.js';
+import { isOutputFormat, OUTPUT_FORMATS, withOutputOptions } from './utils/output.js';
 import { config } from './utils/config.js';
 
+/** The tools and resources bound to one Hex connection within one client session. */
+interface HexToolset {
+  projectTools: HexProjectTools;
+  executionTools: HexExecutionTools;
+  cacheTools: HexCacheTools;
+  pipelineTools: HexPipelineTools;
+  resources: HexResources;
+}
+
+/** A client connection, as recorded in the audit log. */
+interface SessionInfo {
+  id: string;
+  transport: NonNullable<HexAuditEntry['transport']>;
+  /** The Hex token an HTTP client connected with, if it sent one. */
+  clientToken?: string;
+}
+
+/** The message of an error tool result, for the audit log. */
+function errorText(result: CallToolResult): string {
+  const first = result.content[0];
+  return first?.type === 'text' ? first.text.replace(/^Error: /, '') : 'Unknown error';
+}
+
 class HexMCPServer {
-  private server: Server;
-  private auth: HexAuth;
-  private projectTools: HexProjectTools;
-  private executionTools: HexExecutionTools;
+  private profiles: ProfileRegistry;
+  private pipelineStore: PipelineStore;
+  private scheduler: HexScheduler;
+  private scheduleTools: HexScheduleTools;
+  private accessPolicy: AccessPolicy;
+  private profileTools: HexProfileTools;
+  private auditLog: AuditLog;
+  private auditTools: HexAuditTools;
 
   constructor() {
-    this.server = new Server(
+    this.profiles = new ProfileRegistry(config.profilesFile);
+    this.pipelineStore = new PipelineStore(config.pipelineFile);
+    this.auditLog = new AuditLog(config.auditLogFile);
+    this.auditLog.captureUntrackedRequests();
+    this.scheduler = new HexScheduler(
+      this.profiles,
+      new ScheduleStore(config.scheduleFile),
+      this.auditLog,
+      (schedule, auth) => this.accessPolicy.checkScheduledRun(schedule.scheduleId, schedule.projectId, auth)
+    );
+    this.scheduleTools = new HexScheduleTools(this.scheduler);
+    this.accessPolicy = new AccessPolicy(this.pipelineStore, this.scheduler);
+    this.profileTools = new HexProfileTools(this.profiles);
+    this.auditTools = new HexAuditTools(this.auditLog);
+  }
+
+  private createToolset(auth: HexAuth): HexToolset {
+    const confirmations = new ConfirmationTokens();
+    return {
+      projectTools: new HexProjectTools(auth, confirmations),
+      executionTools: new HexExecutionTools(auth, confirmations),
+      cacheTools: new HexCacheTools(auth),
+      pipelineTools: new HexPipelineTools(auth, this.pipelineStore, confirmations),
+      resources: new HexResources(auth),
+    };
+  }
+
+  /**
+   * Creates an MCP server backed by the shared tools. Stdio uses one; the
+   * HTTP transport creates one per client session, each with its own
+   * resource subscriptions. A session opened with the client's own Hex
+   * token runs every call as that user and can't use the server's profiles,
+   * schedules or audit log.
+   */
+  private async createServer(session: SessionInfo): Promise<Server> {
+    // Recorded so a rejected client token shows in the audit log along with the request that checked it
+    const sessionAuth = await this.auditLog.track(
+      this.auditSubject(session, undefined, 'session_start', 'session', undefined),
+      async () => session.clientToken ? this.profiles.forClientToken(session.clientToken) : this.profiles.resolve()
+    );
+
+    const server = new Server(
       {
         name: 'mcp-server-hex',
         version: '1.0.0',
@@ -32,81 +120,275 @@ class HexMCPServer {
       {
         capabilities: {
           tools: {},
-          resources: {},
+          resources: {
+            subscribe: true,
+          },
         },
       }
     );
 
-    this.auth = new HexAuth();
-    this.projectTools = new HexProjectTools(this.auth);
-    this.executionTools = new HexExecutionTools(this.auth);
+    const subscriptions = new RunSubscriptionManager(
+      sessionAuth,
+      (uri) => server.sendResourceUpdated({ uri }),
+      (poll) => this.auditLog.track(this.auditSubject(session, server, 'subscription_poll', 'run subscriptions', undefined), poll)
+    );
+
+    this.setupHandlers(server, subscriptions, sessionAuth, session);
+    return server;
+  }
 
-    this.setupHandlers();
+  /** Who is calling, for the audit log; the client only identifies itself once the session is initialized. */
+  private auditSubject(
+    session: SessionInfo,
+    server: Server | undefined,
+    type: HexAuditEntry['type'],
+    name: string,
+    profile: unknown
+  ): AuditSubject {
+    const client = server?.getClientVersion();
+    const subject: AuditSubject = { type, name, sessionId: session.id, transport: session.transport };
+    if (client) {
+      subject.client = `${client.name} ${client.version}`;
+    }
+    if (session.clientToken !== undefined) {
+      subject.clientTokenId = clientTokenId(session.clientToken);
+    } else {
+      subject.profile = typeof profile === 'string' ? profile : this.profiles.defaultProfile;
+    }
+    return subject;
   }
 
-  private setupHandlers(): void {
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+  private setupHandlers(
+    server: Server,
+    subscriptions: RunSubscriptionManager,
+    sessionAuth: HexAuth,
+    session: SessionInfo
+  ): void {
+    // Toolsets are per session as well as per connection, so a confirm token from a dry run
+    // only works in the session and on the profile that issued it
+    const toolsets = new WeakMap<HexAuth, HexToolset>();
+    const toolsetFor = (auth: HexAuth): HexToolset => {
+      let toolset = toolsets.get(auth);
+      if (!toolset) {
+        toolset = this.createToolset(auth);
+        toolsets.set(auth, toolset);
+      }
+      return toolset;
+    };
+
+    const sessionTools = toolsetFor(sessionAuth);
+    const runBudget = new RunBudget();
+    const isClientSession = session.clientToken !== undefined;
+
+    const auditSubject = (type: HexAuditEntry['type'], name: string, profile: unknown): AuditSubject =>
+      this.auditSubject(session, server, type, name, profile);
+
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       const tools: Tool[] = [
-        ...this.projectTools.getToolDefinitions(),
-        ...this.executionTools.getToolDefinitions(),
-      ];
+        ...sessionTools.projectTools.getToolDefinitions(),
+        ...sessionTools.executionTools.getToolDefinitions(),
+        ...this.scheduleTools.getToolDefinitions(),
+        ...sessionTools.cacheTools.getToolDefinitions(),
+        ...sessionTools.pipelineTools.getToolDefinitions(),
+        ...this.profileTools.getToolDefinitions(),
+        ...(this.auditLog.enabled ? this.auditTools.getToolDefinitions() : []),
+      ].filter(tool => this.accessPolicy.allowsTool(tool.name) && !(isClientSession && isServerOnlyTool(tool.name)));
 
       return {
-        tools,
+        tools: tools.map(tool => isClientSession
+          ? withOutputOptions(tool)
+          : withProfileOption(withOutputOptions(tool), this.profiles.names(), this.profiles.defaultProfile)),
       };
     });
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const { name } = request.params;
+      const context = this.createToolCallContext(server, request.params._meta?.progressToken, extra.signal);
+      const subject = auditSubject('tool_call', name, request.params.arguments?.profile);
+      subject.arguments = sanitizeArguments(request.params.arguments || {});
+
+      return this.auditLog.track(subject, async () => {
+        try {
+          const profile = request.params.arguments?.profile;
+
+          if (isClientSession && (profile !== undefined || isServerOnlyTool(name))) {
+            throw new Error(`${profile !== undefined ? 'Profiles are' : `${name} is`} not available when connected with your own Hex token`);
+          }
+          if (profile !== undefined && typeof profile !== 'string') {
+            throw new Error('profile must be a string');
+          }
+
+          // Resolving first rejects an unknown profile, including one given to hex_schedule_project_run
+          const auth = isClientSession ? sessionAuth : await this.profiles.resolve(profile);
+          const tools = toolsetFor(auth);
+          const args = isClientSession
+            ? request.params.arguments || {}
+            : { ...this.profiles.defaultsFor(profile), ...request.params.arguments };
 
-      try {
-        let result: CallToolResult;
+          // Reject a bad output_format before the tool does any work, e.g. starting a run
+          if (args.output_format !== undefined && !isOutputFormat(args.output_format)) {
+            throw new Error(`Invalid output_format: ${String(args.output_format)}. Use one of: ${OUTPUT_FORMATS.join(', ')}`);
+          }
 
-        if (this.projectTools.canHandleTool(name)) {
-          result = await this.projectTools.callTool(name, args || {});
-        } else if (this.executionTools.canHandleTool(name)) {
-          result = await this.executionTools.callTool(name, args || {});
-        } else {
-          throw new Error(`Unknown tool: ${name}`);
+          const runs = await this.accessPolicy.check(name, args, auth);
+
+          return await runBudget.charge(runs, async () => {
+            if (tools.projectTools.canHandleTool(name)) {
+              return tools.projectTools.callTool(name, args, context);
+            } else if (tools.executionTools.canHandleTool(name)) {
+              return tools.executionTools.callTool(name, args, context);
+            } else if (this.scheduleTools.canHandleTool(name)) {
+              return this.scheduleTools.callTool(name, args);
+            } else if (tools.cacheTools.canHandleTool(name)) {
+              return tools.cacheTools.callTool(name, args);
+            } else if (tools.pipelineTools.canHandleTool(name)) {
+              return tools.pipelineTools.callTool(name, args, context);
+            } else if (this.profileTools.canHandleTool(name)) {
+              return this.profileTools.callTool(name, args);
+            } else if (this.auditTools.canHandleTool(name)) {
+              return this.auditTools.callTool(name, args);
+            }
+            throw new Error(`Unknown tool: ${name}`);
+          });
+        } catch (error) {
+          logger.error(`Error calling tool ${name}:`, error);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              },
+            ],
+            isError: true,
+          };
         }
+      }, result => result.isError ? { error: errorText(result) } : {});
+    });
 
-        return result;
-      } catch (error) {
-        logger.error(`Error calling tool ${name}:`, error);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
-            },
-          ],
-          isError: true,
-        };
-      }
+    server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+      return this.auditLog.track(auditSubject('mcp_request', request.method, undefined), () =>
+        sessionTools.resources.listResources(request.params?.cursor)
+      );
     });
 
-    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
       return {
-        resources: [],
+        resourceTemplates: sessionTools.resources.getResourceTemplates(),
       };
     });
 
-    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-      throw new Error(`Resource not found: ${request.params.uri}`);
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      return this.auditLog.track(auditSubject('resource_read', request.params.uri, undefined), async () => {
+        try {
+          return await sessionTools.resources.readResource(request.params.uri);
+        } catch (error) {
+          logger.error(`Error reading resource ${request.params.uri}:`, error);
+          throw error;
+        }
+      });
+    });
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const subject = auditSubject('mcp_request', request.method, undefined);
+      subject.arguments = { uri: request.params.uri };
+      await this.auditLog.track(subject, () => subscriptions.subscribe(request.params.uri));
+      return {};
     });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      const subject = auditSubject('mcp_request', request.method, undefined);
+      subject.arguments = { uri: request.params.uri };
+      await this.auditLog.track(subject, async () => subscriptions.unsubscribe(request.params.uri));
+      return {};
+    });
+
+    server.onclose = () => {
+      subscriptions.stop();
+    };
+  }
+
+  private createToolCallContext(
+    server: Server,
+    progressToken: string | number | undefined,
+    signal: AbortSignal
+  ): ToolCallContext {
+    const context: ToolCallContext = { signal };
+
+    if (progressToken !== undefined) {
+      context.sendProgress = (progress, total, message) =>
+        server.notification({
+          method: 'notifications/progress',
+          params: {
+            progressToken,
+            progress,
+            ...(total !== undefined && { total }),
+            ...(message && { message }),
+          },
+        });
+    }
+
+    return context;
   }
 
   async run(): Promise<void> {
     try {
-      await this.auth.initialize();
-      const transport = new StdioServerTransport();
-      await this.server.connect(transport);
-      logger.info('Hex MCP Server started successfully');
+      await this.profiles.load();
+      await this.profiles.resolve();
+      await this.scheduler.start();
+
+      if (config.transport === 'http') {
+        await this.runHttp();
+      } else {
+        const server = await this.createServer({ id: randomUUID(), transport: 'stdio' });
+        const onclose = server.onclose;
+        server.onclose = () => {
+          onclose?.();
+          this.scheduler.stop();
+        };
+        await server.connect(new StdioServerTransport());
+      }
+
+      logger.info(`Hex MCP Server started successfully (${config.transport})`);
     } catch (error) {
       logger.error('Failed to start server:', error);
       process.exit(1);
     }
   }
+
+  private async runHttp(): Promise<void> {
+    const httpServer = new HexHttpServer({
+      host: config.httpHost,
+      port: config.httpPort,
+      sessionIdleMs: config.httpSessionIdleMs,
+      requireClientToken: config.httpRequireClientToken,
+      allowedOrigins: config.httpAllowedOrigins,
+      createServer: ({ id, kind, clientToken }) => this.createServer({
+        id,
+        transport: kind,
+        ...(clientToken !== undefined && { clientToken }),
+      }),
+    });
+    await httpServer.start();
+
+    let shuttingDown = false;
+    const shutdown = (signal: string) => {
+      if (shuttingDown) {
+        return;
+      }
+      shuttingDown = true;
+      logger.info(`Received ${signal}, shutting down`);
+      this.scheduler.stop();
+      httpServer.stop()
+        .then(() => process.exit(0))
+        .catch(error => {
+          logger.error('Error during shutdown:', error);
+          process.exit(1);
+        });
+    };
+
+    process.once('SIGINT', () => shutdown('SIGINT'));
+    process.once('SIGTERM', () => shutdown('SIGTERM'));
+  }
 }
 
 const server = new HexMCPServer();
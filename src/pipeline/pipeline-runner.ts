@@ -0,0 +1,243 @@
+import { HexAuth } from '../auth/hex-auth.js';
+import { HexPipelineStep, HexRunProjectRequest } from '../types/index.js';
+import { getRunDurationMs, triggerRun, waitForRun } from '../utils/hex-api.js';
+import { logger } from '../utils/logger.js';
+
+export type PipelineStepStatus =
+  | 'SUCCESS'
+  | 'ERROR'
+  | 'CANCELLED'
+  | 'RUNNING'
+  | 'PENDING'
+  | 'FAILED_TO_START'
+  | 'SKIPPED';
+
+export interface PipelineStepResult {
+  stepId: string;
+  projectId: string;
+  status: PipelineStepStatus;
+  runId?: string;
+  durationMs?: number;
+  /** Input parameters the run was started with, after applying mappings. */
+  inputParams?: Record<string, unknown>;
+  outputParams?: Record<string, unknown>;
+  error?: string;
+}
+
+export interface PipelineRunOptions {
+  maxConcurrent: number;
+  /** Maximum time to wait for each step's run. */
+  stepTimeoutMs: number;
+  signal?: AbortSignal;
+  onStepFinished?: (result: PipelineStepResult) => void;
+}
+
+/** Splits `<stepId>.<outputKey>`; the key may itself be a dot-separated path into nested outputs. */
+export function parseOutputReference(reference: string): { stepId: string; outputPath: string[] } | undefined {
+  const [stepId, ...outputPath] = reference.split('.');
+  if (!stepId || outputPath.length === 0 || outputPath.some(segment => segment === '')) {
+    return undefined;
+  }
+  return { stepId, outputPath };
+}
+
+/** Explicit dependencies plus the steps referenced by input mappings. */
+export function stepDependencies(step: HexPipelineStep): string[] {
+  const mapped = Object.values(step.inputMappings || {})
+    .map(reference => parseOutputReference(reference)?.stepId)
+    .filter((stepId): stepId is string => stepId !== undefined);
+  return [...new Set([...(step.dependsOn || []), ...mapped])];
+}
+
+/**
+ * Checks step IDs, dependencies and mappings, and returns the steps in
+ * topological order. Throws on unknown references and cycles.
+ */
+export function validatePipeline(steps: HexPipelineStep[]): HexPipelineStep[] {
+  if (!Array.isArray(steps) || steps.length === 0) {
+    throw new Error('A pipeline needs at least one step');
+  }
+
+  const byId = new Map<string, HexPipelineStep>();
+  steps.forEach((step, index) => {
+    if (!step || typeof step.id !== 'string' || step.id === '' || step.id.includes('.')) {
+      throw new Error(`steps[${index}].id must be a non-empty string without dots`);
+    }
+    if (typeof step.projectId !== 'string' || step.projectId === '') {
+      throw new Error(`Step "${step.id}" needs a project_id`);
+    }
+    if (byId.has(step.id)) {
+      throw new Error(`Duplicate step id: ${step.id}`);
+    }
+    byId.set(step.id, step);
+  });
+
+  steps.forEach(step => {
+    Object.entries(step.inputMappings || {}).forEach(([input, reference]) => {
+      if (typeof reference !== 'string' || !parseOutputReference(reference)) {
+        throw new Error(
+          `Step "${step.id}" maps input "${input}" from "${String(reference)}"; use "<step_id>.<output_key>"`
+        );
+      }
+    });
+
+    stepDependencies(step).forEach(dependency => {
+      if (dependency === step.id) {
+        throw new Error(`Step "${step.id}" depends on itself`);
+      }
+      if (!byId.has(dependency)) {
+        throw new Error(`Step "${step.id}" depends on unknown step "${dependency}"`);
+      }
+    });
+  });
+
+  // Kahn's algorithm, keeping the given order among steps that are ready at the same time
+  const remaining = new Map(steps.map(step => [step.id, new Set(stepDependencies(step))]));
+  const ordered: HexPipelineStep[] = [];
+
+  while (remaining.size > 0) {
+    const ready = [...remaining.entries()].filter(([, dependencies]) => dependencies.size === 0).map(([id]) => id);
+    if (ready.length === 0) {
+      throw new Error(`Pipeline has a dependency cycle between steps: ${[...remaining.keys()].join(', ')}`);
+    }
+    ready.forEach(id => {
+      remaining.delete(id);
+      ordered.push(byId.get(id) as HexPipelineStep);
+      remaining.forEach(dependencies => dependencies.delete(id));
+    });
+  }
+
+  return ordered;
+}
+
+function resolveInputs(
+  step: HexPipelineStep,
+  results: Map<string, PipelineStepResult>
+): Record<string, unknown> {
+  const inputs: Record<string, unknown> = { ...step.inputParams };
+
+  Object.entries(step.inputMappings || {}).forEach(([input, reference]) => {
+    const { stepId, outputPath } = parseOutputReference(reference) as { stepId: string; outputPath: string[] };
+    const value = outputPath.reduce<unknown>(
+      (current, key) => current !== null && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined,
+      results.get(stepId)?.outputParams
+    );
+    if (value === undefined) {
+      throw new Error(`Output "${outputPath.join('.')}" of step "${stepId}" not found for input "${input}"`);
+    }
+    inputs[input] = value;
+  });
+
+  return inputs;
+}
+
+async function runStep(
+  auth: HexAuth,
+  step: HexPipelineStep,
+  results: Map<string, PipelineStepResult>,
+  options: PipelineRunOptions
+): Promise<PipelineStepResult> {
+  const result: PipelineStepResult = { stepId: step.id, projectId: step.projectId, status: 'FAILED_TO_START' };
+
+  try {
+    result.inputParams = resolveInputs(step, results);
+
+    const request: HexRunProjectRequest = { projectId: step.projectId, inputParams: result.inputParams };
+    if (typeof step.useCachedSqlResults === 'boolean') {
+      request.useCachedSqlResults = step.useCachedSqlResults;
+    }
+
+    const started = await triggerRun(auth, request);
+    result.runId = started.runId;
+
+    const { run } = await waitForRun(auth, step.projectId, started.runId, {
+      timeoutMs: options.stepTimeoutMs,
+      ...(options.signal && { signal: options.signal }),
+    });
+
+    result.status = run.status;
+    const durationMs = getRunDurationMs(run);
+    if (durationMs !== undefined) {
+      result.durationMs = durationMs;
+    }
+    if (run.outputParams) {
+      result.outputParams = run.outputParams;
+    }
+    if (run.status === 'ERROR') {
+      result.error = run.errorMessage || 'Unknown error';
+    } else if (run.status === 'RUNNING' || run.status === 'PENDING') {
+      result.error = `Still ${run.status} after ${Math.round(options.stepTimeoutMs / 1000)} seconds`;
+    }
+  } catch (error) {
+    logger.error(`Pipeline step ${step.id} failed:`, error);
+    result.error = error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  return result;
+}
+
+/**
+ * Runs the steps of a validated pipeline, starting each step as soon as all
+ * of its dependencies have succeeded, with at most `maxConcurrent` runs in
+ * flight. Steps downstream of a failure are skipped; a failing step whose
+ * `onFailure` is `stop` also prevents any other step from starting.
+ * Results are returned in topological order.
+ */
+export async function runPipeline(
+  auth: HexAuth,
+  steps: HexPipelineStep[],
+  options: PipelineRunOptions
+): Promise<PipelineStepResult[]> {
+  const ordered = validatePipeline(steps);
+  const results = new Map<string, PipelineStepResult>();
+  const running = new Map<string, Promise<void>>();
+  const pending = new Set(ordered.map(step => step.id));
+  let stopReason: string | undefined;
+
+  const finish = (result: PipelineStepResult) => {
+    results.set(result.stepId, result);
+    options.onStepFinished?.(result);
+  };
+
+  while (pending.size > 0 || running.size > 0) {
+    for (const step of ordered) {
+      if (!pending.has(step.id)) {
+        continue;
+      }
+
+      const failedDependency = stepDependencies(step)
+        .find(dependency => results.has(dependency) && results.get(dependency)?.status !== 'SUCCESS');
+      const skipReason = options.signal?.aborted
+        ? 'Pipeline was cancelled'
+        : stopReason ?? (failedDependency && `Upstream step "${failedDependency}" did not succeed`);
+
+      if (skipReason) {
+        pending.delete(step.id);
+        finish({ stepId: step.id, projectId: step.projectId, status: 'SKIPPED', error: skipReason });
+        continue;
+      }
+
+      const ready = stepDependencies(step).every(dependency => results.get(dependency)?.status === 'SUCCESS');
+      if (!ready || running.size >= options.maxConcurrent) {
+        continue;
+      }
+
+      pending.delete(step.id);
+      running.set(step.id, runStep(auth, step, results, options).then(result => {
+        running.delete(step.id);
+        if (result.status !== 'SUCCESS' && step.onFailure !== 'continue' && !stopReason) {
+          stopReason = `Pipeline stopped after step "${step.id}" failed`;
+        }
+        finish(result);
+      }));
+    }
+
+    if (running.size === 0) {
+      break;
+    }
+
+    await Promise.race(running.values());
+  }
+
+  return ordered.map(step => results.get(step.id) as PipelineStepResult);
+}
@@ -0,0 +1,76 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { HexPipeline } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * JSON file holding saved pipeline definitions, keyed by name. Writes go
+ * through a temp file like `ScheduleStore` and are serialized so concurrent
+ * saves don't drop each other's changes.
+ */
+export class PipelineStore {
+  private saveQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  async list(): Promise<HexPipeline[]> {
+    try {
+      const raw = await readFile(this.filePath, 'utf8');
+      const parsed = JSON.parse(raw) as { pipelines?: HexPipeline[] };
+      return parsed.pipelines || [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      logger.error(`Failed to read pipeline store ${this.filePath}:`, error);
+      throw error;
+    }
+  }
+
+  async get(name: string): Promise<HexPipeline> {
+    const pipeline = (await this.list()).find(candidate => candidate.name === name);
+    if (!pipeline) {
+      throw new Error(`Pipeline not found: ${name}. Use hex_list_pipelines to see saved pipelines.`);
+    }
+    return pipeline;
+  }
+
+  /** Adds the pipeline, or replaces the one with the same name while keeping its `createdAt`. */
+  async save(pipeline: Omit<HexPipeline, 'createdAt' | 'updatedAt'>): Promise<HexPipeline> {
+    return this.update(pipelines => {
+      const now = new Date().toISOString();
+      const existing = pipelines.find(candidate => candidate.name === pipeline.name);
+      const saved: HexPipeline = { ...pipeline, createdAt: existing?.createdAt ?? now, updatedAt: now };
+      return {
+        pipelines: [...pipelines.filter(candidate => candidate.name !== pipeline.name), saved],
+        result: saved,
+      };
+    });
+  }
+
+  async delete(name: string): Promise<void> {
+    await this.update(pipelines => {
+      if (!pipelines.some(candidate => candidate.name === name)) {
+        throw new Error(`Pipeline not found: ${name}`);
+      }
+      return { pipelines: pipelines.filter(candidate => candidate.name !== name), result: undefined };
+    });
+  }
+
+  getPath(): string {
+    return this.filePath;
+  }
+
+  private update<T>(change: (pipelines: HexPipeline[]) => { pipelines: HexPipeline[]; result: T }): Promise<T> {
+    const next = this.saveQueue.then(async () => {
+      const { pipelines, result } = change(await this.list());
+      await mkdir(dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      await writeFile(tempPath, JSON.stringify({ pipelines }, null, 2), 'utf8');
+      await rename(tempPath, this.filePath);
+      return result;
+    });
+    this.saveQueue = next.catch(() => undefined);
+    return next;
+  }
+}
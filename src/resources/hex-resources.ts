@@ -0,0 +1,181 @@
+import { Resource, ResourceTemplate, ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
+import { HexAuth } from '../auth/hex-auth.js';
+import { HexProject, HexProjectListResponse, HexProjectRunListResponse } from '../types/index.js';
+import { getRun } from '../utils/hex-api.js';
+import { logger } from '../utils/logger.js';
+
+const MIME_TYPE = 'application/json';
+const PAGE_SIZE = 100;
+
+export type HexResourceUri =
+  | { kind: 'projects' }
+  | { kind: 'project'; projectId: string }
+  | { kind: 'runs'; projectId: string }
+  | { kind: 'run'; projectId: string; runId: string };
+
+/**
+ * Parses `hex://projects[/{projectId}[/runs[/{runId}]]]`. Query parameters
+ * (`after`, `limit`) are left on the URL for list reads.
+ */
+export function parseHexResourceUri(uri: string): HexResourceUri {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    throw new Error(`Invalid resource URI: ${uri}`);
+  }
+
+  const segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  if (url.protocol !== 'hex:' || url.hostname !== 'projects') {
+    throw new Error(`Resource not found: ${uri}`);
+  }
+
+  const [projectId, runsSegment, runId, ...rest] = segments;
+  if (rest.length > 0 || (runsSegment !== undefined && runsSegment !== 'runs')) {
+    throw new Error(`Resource not found: ${uri}`);
+  }
+
+  if (!projectId) {
+    return { kind: 'projects' };
+  }
+  if (!runsSegment) {
+    return { kind: 'project', projectId };
+  }
+  if (!runId) {
+    return { kind: 'runs', projectId };
+  }
+  return { kind: 'run', projectId, runId };
+}
+
+export function projectUri(projectId: string): string {
+  return `hex://projects/${encodeURIComponent(projectId)}`;
+}
+
+export function runUri(projectId: string, runId: string): string {
+  return `${projectUri(projectId)}/runs/${encodeURIComponent(runId)}`;
+}
+
+export class HexResources {
+  constructor(private auth: HexAuth) {}
+
+  getResourceTemplates(): ResourceTemplate[] {
+    return [
+      {
+        uriTemplate: 'hex://projects/{projectId}',
+        name: 'Hex project',
+        description: 'Metadata for a single Hex project',
+        mimeType: MIME_TYPE,
+      },
+      {
+        uriTemplate: 'hex://projects/{projectId}/runs',
+        name: 'Hex project runs',
+        description: 'Run history for a project, newest first. Append ?after={cursor} for the next page.',
+        mimeType: MIME_TYPE,
+      },
+      {
+        uriTemplate: 'hex://projects/{projectId}/runs/{runId}',
+        name: 'Hex project run',
+        description: 'Status, timing, inputs and outputs of a single run',
+        mimeType: MIME_TYPE,
+      },
+    ];
+  }
+
+  /** Lists the workspace project index plus one resource per project, a page at a time. */
+  async listResources(cursor?: string): Promise<{ resources: Resource[]; nextCursor?: string }> {
+    const page = await this.fetchProjects(cursor, PAGE_SIZE);
+
+    const resources: Resource[] = page.projects.map(project => this.projectResource(project));
+    if (!cursor) {
+      resources.unshift({
+        uri: 'hex://projects',
+        name: 'Hex projects',
+        description: 'All viewable projects in the Hex workspace. Append ?after={cursor} for the next page.',
+        mimeType: MIME_TYPE,
+      });
+    }
+
+    return {
+      resources,
+      ...(page.hasMore && page.nextCursor && { nextCursor: page.nextCursor }),
+    };
+  }
+
+  async readResource(uri: string): Promise<ReadResourceResult> {
+    const resource = parseHexResourceUri(uri);
+    const query = new URL(uri).searchParams;
+    const after = query.get('after') || undefined;
+    const limit = Math.min(PAGE_SIZE, Math.max(1, Number(query.get('limit')) || PAGE_SIZE));
+
+    logger.debug('Reading resource:', uri);
+
+    let data: unknown;
+    switch (resource.kind) {
+      case 'projects':
+        data = await this.fetchProjects(after, limit);
+        break;
+      case 'project': {
+        const project = await this.auth.makeRequest<HexProject>(`/projects/${resource.projectId}`, {
+          method: 'GET',
+        });
+        if (this.auth.isApiError(project)) {
+          throw new Error(project.error.message);
+        }
+        data = project;
+        break;
+      }
+      case 'runs': {
+        const runs = await this.auth.makeRequest<HexProjectRunListResponse>(`/projects/${resource.projectId}/runs`, {
+          method: 'GET',
+          params: {
+            limit,
+            ...(after && { after }),
+          },
+        });
+        if (this.auth.isApiError(runs)) {
+          throw new Error(runs.error.message);
+        }
+        data = runs;
+        break;
+      }
+      case 'run':
+        data = await getRun(this.auth, resource.projectId, resource.runId);
+        break;
+    }
+
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: MIME_TYPE,
+          text: JSON.stringify(data, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async fetchProjects(after: string | undefined, limit: number): Promise<HexProjectListResponse> {
+    const response = await this.auth.makeRequest<HexProjectListResponse>('/projects', {
+      method: 'GET',
+      params: {
+        limit,
+        ...(after && { after }),
+      },
+    });
+
+    if (this.auth.isApiError(response)) {
+      throw new Error(response.error.message);
+    }
+
+    return response;
+  }
+
+  private projectResource(project: HexProject): Resource {
+    return {
+      uri: projectUri(project.projectId),
+      name: project.name,
+      ...(project.description && { description: project.description }),
+      mimeType: MIME_TYPE,
+    };
+  }
+}
@@ -0,0 +1,129 @@
+import { HexAuth } from '../auth/hex-auth.js';
+import { HexRunStatus } from '../types/index.js';
+import { getRun, isTerminalRunStatus } from '../utils/hex-api.js';
+import { logger } from '../utils/logger.js';
+import { parseHexResourceUri } from './hex-resources.js';
+
+interface RunSubscription {
+  uri: string;
+  projectId: string;
+  runId: string;
+  lastStatus?: HexRunStatus;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 10_000;
+
+/**
+ * Tracks subscribed run resources and polls them in the background, calling
+ * `notify` whenever a run's status changes. Subscriptions end on their own once
+ * the run reaches a terminal status. Polls go through `HexAuth.makeRequest`, so
+ * they draw from the same rate-limit budget as tool calls. Once `stop` is
+ * called, e.g. when the client's session closes, nothing is polled again.
+ */
+export class RunSubscriptionManager {
+  private subscriptions = new Map<string, RunSubscription>();
+  private timer: NodeJS.Timeout | undefined;
+  private polling = false;
+  private stopped = false;
+
+  constructor(
+    private auth: HexAuth,
+    private notify: (uri: string) => Promise<void>,
+    /** Wraps each background poll, e.g. to record it in the audit log. */
+    private trackPoll: (poll: () => Promise<void>) => Promise<void> = poll => poll(),
+    private pollIntervalMs = DEFAULT_POLL_INTERVAL_MS
+  ) {}
+
+  async subscribe(uri: string): Promise<void> {
+    const resource = parseHexResourceUri(uri);
+    if (resource.kind !== 'run') {
+      throw new Error(`Only run resources (hex://projects/{projectId}/runs/{runId}) support subscriptions: ${uri}`);
+    }
+
+    const run = await getRun(this.auth, resource.projectId, resource.runId);
+    if (this.stopped) {
+      return;
+    }
+    if (isTerminalRunStatus(run.status)) {
+      logger.debug(`Run ${run.runId} is already ${run.status}; not polling`);
+      return;
+    }
+
+    this.subscriptions.set(uri, {
+      uri,
+      projectId: resource.projectId,
+      runId: resource.runId,
+      lastStatus: run.status,
+    });
+    logger.debug(`Subscribed to ${uri} (${run.status})`);
+    this.schedule();
+  }
+
+  unsubscribe(uri: string): void {
+    this.subscriptions.delete(uri);
+    if (this.subscriptions.size === 0) {
+      this.clearTimer();
+    }
+  }
+
+  /** Drops every subscription and stops polling for good, including after a poll in progress. */
+  stop(): void {
+    this.stopped = true;
+    this.subscriptions.clear();
+    this.clearTimer();
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private schedule(): void {
+    if (this.stopped || this.timer || this.polling || this.subscriptions.size === 0) {
+      return;
+    }
+
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.trackPoll(() => this.poll())
+        .catch(error => logger.error('Run subscription poll failed:', error))
+        .finally(() => this.schedule());
+    }, this.pollIntervalMs);
+    this.timer.unref();
+  }
+
+  private async poll(): Promise<void> {
+    this.polling = true;
+    try {
+      for (const subscription of [...this.subscriptions.values()]) {
+        if (!this.subscriptions.has(subscription.uri)) {
+          continue;
+        }
+
+        try {
+          const run = await getRun(this.auth, subscription.projectId, subscription.runId);
+
+          if (!this.subscriptions.has(subscription.uri)) {
+            continue;
+          }
+
+          if (run.status !== subscription.lastStatus) {
+            logger.debug(`Run ${run.runId} changed from ${subscription.lastStatus} to ${run.status}`);
+            subscription.lastStatus = run.status;
+            await this.notify(subscription.uri);
+          }
+
+          if (isTerminalRunStatus(run.status)) {
+            this.subscriptions.delete(subscription.uri);
+          }
+        } catch (error) {
+          logger.error(`Failed to poll subscribed run ${subscription.uri}:`, error);
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from '@jest/globals';
+import { getNextCronOccurrence, parseCronExpression } from './cron.js';
+
+describe('parseCronExpression', () => {
+  it('expands wildcards, ranges, lists and steps', () => {
+    const fields = parseCronExpression('*/15 9-17 1,15 * mon-fri');
+    expect(fields.minutes).toEqual([0, 15, 30, 45]);
+    expect(fields.hours).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    expect([...fields.daysOfMonth]).toEqual([1, 15]);
+    expect(fields.months.size).toBe(12);
+    expect([...fields.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('steps from a start value to the end of the range', () => {
+    expect(parseCronExpression('5/20 * * * *').minutes).toEqual([5, 25, 45]);
+  });
+
+  it('accepts month and day names case-insensitively', () => {
+    const fields = parseCronExpression('0 0 * JAN,Dec Sun');
+    expect([...fields.months]).toEqual([1, 12]);
+    expect([...fields.daysOfWeek]).toEqual([0]);
+  });
+
+  it('treats 7 as Sunday', () => {
+    expect([...parseCronExpression('0 0 * * 7').daysOfWeek]).toEqual([0]);
+  });
+
+  it.each([
+    ['0 0 * *', /must have 5 fields/],
+    ['60 * * * *', /out of range 0-59/],
+    ['* 5-3 * * *', /out of range/],
+    ['*/0 * * * *', /Invalid cron step/],
+    ['* * * foo *', /Invalid cron value "foo"/],
+  ])('rejects "%s"', (expression, message) => {
+    expect(() => parseCronExpression(expression)).toThrow(message);
+  });
+});
+
+describe('getNextCronOccurrence', () => {
+  it('returns the next matching time strictly after the given time', () => {
+    const after = new Date('2024-05-01T09:00:00Z');
+    expect(getNextCronOccurrence('0 9 * * *', after, 'UTC').toISOString()).toBe('2024-05-02T09:00:00.000Z');
+    expect(getNextCronOccurrence('*/15 * * * *', after, 'UTC').toISOString()).toBe('2024-05-01T09:15:00.000Z');
+  });
+
+  it('evaluates the expression in the given time zone', () => {
+    const next = getNextCronOccurrence('0 9 * * *', new Date('2024-05-01T12:00:00Z'), 'America/New_York');
+    expect(next.toISOString()).toBe('2024-05-01T13:00:00.000Z');
+  });
+
+  it('keeps the wall-clock time across a DST change', () => {
+    const next = getNextCronOccurrence('0 9 * * *', new Date('2024-03-09T15:00:00Z'), 'America/New_York');
+    expect(next.toISOString()).toBe('2024-03-10T13:00:00.000Z');
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // 2024-05-01 is a Wednesday: the next Friday (3rd) comes before the 15th
+    const next = getNextCronOccurrence('0 0 15 * fri', new Date('2024-05-01T00:00:00Z'), 'UTC');
+    expect(next.toISOString()).toBe('2024-05-03T00:00:00.000Z');
+  });
+
+  it('skips months without the requested day', () => {
+    const next = getNextCronOccurrence('0 0 31 * *', new Date('2024-04-01T00:00:00Z'), 'UTC');
+    expect(next.toISOString()).toBe('2024-05-31T00:00:00.000Z');
+  });
+
+  it('finds leap days', () => {
+    const next = getNextCronOccurrence('0 0 29 2 *', new Date('2024-03-01T00:00:00Z'), 'UTC');
+    expect(next.toISOString()).toBe('2028-02-29T00:00:00.000Z');
+  });
+
+  it('rejects expressions that never match', () => {
+    expect(() => getNextCronOccurrence('0 0 31 2 *', new Date('2024-01-01T00:00:00Z'), 'UTC'))
+      .toThrow(/no upcoming occurrences/);
+  });
+});
@@ -0,0 +1,140 @@
+import { getZonedParts, zonedTimeToUtc } from '../utils/timezone.js';
+
+interface CronFields {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/** How far ahead to search before deciding an expression never matches (e.g. "0 0 31 2 *"). */
+const MAX_SEARCH_DAYS = 366 * 5;
+
+function parseValue(value: string, fieldIndex: number): number {
+  const lower = value.toLowerCase();
+  if (fieldIndex === 3 && MONTH_NAMES.includes(lower)) {
+    return MONTH_NAMES.indexOf(lower) + 1;
+  }
+  if (fieldIndex === 4 && DAY_NAMES.includes(lower)) {
+    return DAY_NAMES.indexOf(lower);
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed)) {
+    throw new Error(`Invalid cron value "${value}"`);
+  }
+  return parsed;
+}
+
+function parseField(field: string, fieldIndex: number): number[] {
+  const [min, max] = FIELD_RANGES[fieldIndex] as [number, number];
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron step in "${part}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = min;
+      end = max;
+    } else if (rangePart?.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = parseValue(from || '', fieldIndex);
+      end = parseValue(to || '', fieldIndex);
+    } else {
+      start = parseValue(rangePart || '', fieldIndex);
+      end = stepPart === undefined ? start : max;
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new Error(`Cron value "${part}" is out of range ${min}-${max}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return [...values].sort((a, b) => a - b);
+}
+
+export function parseCronExpression(expression: string): CronFields {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(
+      `Cron expression "${expression}" must have 5 fields: minute hour day-of-month month day-of-week`
+    );
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields.map((field, index) => parseField(field, index));
+
+  return {
+    minutes: minute as number[],
+    hours: hour as number[],
+    daysOfMonth: new Set(dayOfMonth),
+    months: new Set(month),
+    // Both 0 and 7 mean Sunday
+    daysOfWeek: new Set((dayOfWeek as number[]).map(day => day % 7)),
+    dayOfMonthRestricted: fields[2] !== '*',
+    dayOfWeekRestricted: fields[4] !== '*',
+  };
+}
+
+function matchesDay(fields: CronFields, day: number, weekday: number): boolean {
+  const dayOfMonthMatch = fields.daysOfMonth.has(day);
+  const dayOfWeekMatch = fields.daysOfWeek.has(weekday);
+
+  // Standard cron semantics: when both day fields are restricted, either may match
+  if (fields.dayOfMonthRestricted && fields.dayOfWeekRestricted) {
+    return dayOfMonthMatch || dayOfWeekMatch;
+  }
+  return dayOfMonthMatch && dayOfWeekMatch;
+}
+
+/** Returns the first time strictly after `after` that matches `expression` in `timeZone`. */
+export function getNextCronOccurrence(expression: string, after: Date, timeZone: string): Date {
+  const fields = parseCronExpression(expression);
+  const start = getZonedParts(after, timeZone);
+
+  for (let offset = 0; offset <= MAX_SEARCH_DAYS; offset++) {
+    // Walk calendar days in the target zone using a UTC date purely as a calendar
+    const calendarDay = new Date(Date.UTC(start.year, start.month - 1, start.day + offset));
+    const year = calendarDay.getUTCFullYear();
+    const month = calendarDay.getUTCMonth() + 1;
+    const day = calendarDay.getUTCDate();
+
+    if (!fields.months.has(month) || !matchesDay(fields, day, calendarDay.getUTCDay())) {
+      continue;
+    }
+
+    for (const hour of fields.hours) {
+      for (const minute of fields.minutes) {
+        const candidate = zonedTimeToUtc({ year, month, day, hour, minute }, timeZone);
+        if (candidate.getTime() > after.getTime()) {
+          return candidate;
+        }
+      }
+    }
+  }
+
+  throw new Error(`Cron expression "${expression}" has no upcoming occurrences`);
+}
@@ -0,0 +1,37 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { HexSchedule } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * JSON file holding every schedule. Writes go to a temp file first and are
+ * renamed into place so a crash mid-write never leaves a truncated store.
+ */
+export class ScheduleStore {
+  constructor(private filePath: string) {}
+
+  async load(): Promise<HexSchedule[]> {
+    try {
+      const raw = await readFile(this.filePath, 'utf8');
+      const parsed = JSON.parse(raw) as { schedules?: HexSchedule[] };
+      return parsed.schedules || [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      logger.error(`Failed to read schedule store ${this.filePath}:`, error);
+      throw error;
+    }
+  }
+
+  async save(schedules: HexSchedule[]): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await writeFile(tempPath, JSON.stringify({ schedules }, null, 2), 'utf8');
+    await rename(tempPath, this.filePath);
+  }
+
+  getPath(): string {
+    return this.filePath;
+  }
+}
@@ -0,0 +1,356 @@
+import { randomUUID } from 'node:crypto';
+import { AuditLog, sanitizeArguments } from '../audit/audit-log.js';
+import { HexAuth } from '../auth/hex-auth.js';
+import { ProfileRegistry } from '../auth/profiles.js';
+import { HexRunProjectRequest, HexSchedule, HexScheduleType } from '../types/index.js';
+import { triggerRun } from '../utils/hex-api.js';
+import { logger } from '../utils/logger.js';
+import { getZonedParts, isValidTimeZone, zonedTimeToUtc } from '../utils/timezone.js';
+import { getNextCronOccurrence, parseCronExpression } from './cron.js';
+import { ScheduleStore } from './schedule-store.js';
+
+export interface CreateScheduleInput {
+  projectId: string;
+  scheduleType: HexScheduleType;
+  /** ISO 8601 for "once"; "HH:MM" or an ISO 8601 datetime for daily/weekly/monthly. */
+  scheduledTime?: string;
+  cronExpression?: string;
+  dayOfWeek?: number;
+  dayOfMonth?: number;
+  timezone: string;
+  profile?: string;
+  inputParams?: Record<string, unknown>;
+  notificationConfig?: HexRunProjectRequest['notificationConfig'];
+}
+
+interface WallClockTime {
+  hour: number;
+  minute: number;
+  weekday?: number;
+  day?: number;
+}
+
+// Timers are re-armed at least hourly so clock changes and very distant runs are handled
+const MAX_TIMER_MS = 60 * 60 * 1000;
+
+/**
+ * In-process scheduler that triggers project runs at their scheduled times.
+ * Schedules are persisted through `ScheduleStore`, so they survive restarts;
+ * occurrences missed while the server was down fire once on startup. Runs
+ * are started with the schedule's profile, resolved when it fires, and
+ * each attempt is recorded in the audit log. `beforeFire` can refuse a run,
+ * which is recorded as the schedule's last error.
+ */
+export class HexScheduler {
+  private schedules = new Map<string, HexSchedule>();
+  private timer: NodeJS.Timeout | undefined;
+  private ticking = false;
+  private saveQueue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private profiles: ProfileRegistry,
+    private store: ScheduleStore,
+    private auditLog: AuditLog,
+    private beforeFire: (schedule: HexSchedule, auth: HexAuth) => Promise<void> = async () => undefined
+  ) {}
+
+  async start(): Promise<void> {
+    const schedules = await this.store.load();
+    schedules.forEach(schedule => this.schedules.set(schedule.scheduleId, schedule));
+    logger.info(`Loaded ${schedules.length} schedule(s) from ${this.store.getPath()}`);
+    this.arm();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  list(): HexSchedule[] {
+    return [...this.schedules.values()].map(schedule => ({ ...schedule }));
+  }
+
+  get(scheduleId: string): HexSchedule {
+    const schedule = this.schedules.get(scheduleId);
+    if (!schedule) {
+      throw new Error(`Schedule not found: ${scheduleId}`);
+    }
+    return { ...schedule };
+  }
+
+  async create(input: CreateScheduleInput): Promise<HexSchedule> {
+    if (!isValidTimeZone(input.timezone)) {
+      throw new Error(`Invalid timezone: ${input.timezone}`);
+    }
+
+    const schedule: HexSchedule = {
+      scheduleId: `sched_${randomUUID().slice(0, 8)}`,
+      projectId: input.projectId,
+      scheduleType: input.scheduleType,
+      timezone: input.timezone,
+      status: 'ACTIVE',
+      createdAt: new Date().toISOString(),
+      runCount: 0,
+    };
+
+    if (input.profile) {
+      schedule.profile = input.profile;
+    }
+    if (input.inputParams) {
+      schedule.inputParams = input.inputParams;
+    }
+    if (input.notificationConfig) {
+      schedule.notificationConfig = input.notificationConfig;
+    }
+
+    if (input.scheduleType === 'once') {
+      if (!input.scheduledTime) {
+        throw new Error('scheduled_time is required for one-off schedules');
+      }
+      const runAt = resolveInstant(input.scheduledTime, input.timezone);
+      if (runAt.getTime() <= Date.now()) {
+        throw new Error(`scheduled_time ${input.scheduledTime} is in the past`);
+      }
+      schedule.runAt = runAt.toISOString();
+      schedule.nextRunAt = schedule.runAt;
+    } else {
+      schedule.cronExpression = buildCronExpression(input);
+      schedule.nextRunAt = getNextCronOccurrence(schedule.cronExpression, new Date(), input.timezone).toISOString();
+    }
+
+    this.schedules.set(schedule.scheduleId, schedule);
+    await this.persist();
+    this.arm();
+
+    logger.info(`Created schedule ${schedule.scheduleId} for project ${schedule.projectId}`);
+    return { ...schedule };
+  }
+
+  async pause(scheduleId: string): Promise<HexSchedule> {
+    const schedule = this.require(scheduleId);
+    if (schedule.status !== 'ACTIVE') {
+      throw new Error(`Schedule ${scheduleId} is ${schedule.status.toLowerCase()} and cannot be paused`);
+    }
+
+    schedule.status = 'PAUSED';
+    delete schedule.nextRunAt;
+    await this.persist();
+    this.arm();
+    return { ...schedule };
+  }
+
+  async resume(scheduleId: string): Promise<HexSchedule> {
+    const schedule = this.require(scheduleId);
+    if (schedule.status !== 'PAUSED') {
+      throw new Error(`Schedule ${scheduleId} is ${schedule.status.toLowerCase()} and cannot be resumed`);
+    }
+
+    schedule.status = 'ACTIVE';
+    // A one-off schedule whose time passed while paused fires on the next tick
+    schedule.nextRunAt = schedule.cronExpression
+      ? getNextCronOccurrence(schedule.cronExpression, new Date(), schedule.timezone).toISOString()
+      : schedule.runAt as string;
+    await this.persist();
+    this.arm();
+    return { ...schedule };
+  }
+
+  async delete(scheduleId: string): Promise<HexSchedule> {
+    const schedule = this.require(scheduleId);
+    this.schedules.delete(scheduleId);
+    await this.persist();
+    this.arm();
+    return { ...schedule };
+  }
+
+  private require(scheduleId: string): HexSchedule {
+    const schedule = this.schedules.get(scheduleId);
+    if (!schedule) {
+      throw new Error(`Schedule not found: ${scheduleId}`);
+    }
+    return schedule;
+  }
+
+  private arm(): void {
+    this.stop();
+
+    const nextTimes = [...this.schedules.values()]
+      .filter(schedule => schedule.status === 'ACTIVE' && schedule.nextRunAt)
+      .map(schedule => new Date(schedule.nextRunAt as string).getTime());
+
+    if (nextTimes.length === 0) {
+      return;
+    }
+
+    const delay = Math.min(MAX_TIMER_MS, Math.max(0, Math.min(...nextTimes) - Date.now()));
+    this.timer = setTimeout(() => {
+      this.tick().catch(error => logger.error('Scheduler tick failed:', error));
+    }, delay);
+    this.timer.unref();
+  }
+
+  private async tick(): Promise<void> {
+    if (this.ticking) {
+      return;
+    }
+
+    this.ticking = true;
+    try {
+      const now = Date.now();
+      const due = [...this.schedules.values()].filter(schedule =>
+        schedule.status === 'ACTIVE' &&
+        schedule.nextRunAt &&
+        new Date(schedule.nextRunAt).getTime() <= now
+      );
+
+      for (const schedule of due) {
+        await this.fire(schedule);
+      }
+
+      if (due.length > 0) {
+        await this.persist();
+      }
+    } finally {
+      this.ticking = false;
+      this.arm();
+    }
+  }
+
+  private async fire(schedule: HexSchedule): Promise<void> {
+    const request: HexRunProjectRequest = { projectId: schedule.projectId };
+    if (schedule.inputParams) {
+      request.inputParams = schedule.inputParams;
+    }
+    if (schedule.notificationConfig) {
+      request.notificationConfig = schedule.notificationConfig;
+    }
+
+    schedule.lastRunAt = new Date().toISOString();
+
+    try {
+      const response = await this.auditLog.track(
+        {
+          type: 'scheduled_run',
+          name: schedule.scheduleId,
+          arguments: sanitizeArguments({ project_id: schedule.projectId, input_params: schedule.inputParams }),
+          profile: schedule.profile ?? this.profiles.defaultProfile,
+        },
+        async () => {
+          const auth = await this.profiles.resolve(schedule.profile);
+          await this.beforeFire(schedule, auth);
+          return triggerRun(auth, request);
+        }
+      );
+      schedule.lastRunId = response.runId;
+      schedule.runCount += 1;
+      delete schedule.lastError;
+      logger.info(`Schedule ${schedule.scheduleId} started run ${response.runId} for project ${schedule.projectId}`);
+    } catch (error) {
+      schedule.lastError = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`Schedule ${schedule.scheduleId} failed to start a run:`, error);
+    }
+
+    if (schedule.cronExpression) {
+      schedule.nextRunAt = getNextCronOccurrence(schedule.cronExpression, new Date(), schedule.timezone).toISOString();
+    } else {
+      schedule.status = 'COMPLETED';
+      delete schedule.nextRunAt;
+    }
+  }
+
+  private persist(): Promise<void> {
+    const snapshot = this.list();
+    this.saveQueue = this.saveQueue
+      .catch(() => undefined)
+      .then(() => this.store.save(snapshot));
+    return this.saveQueue;
+  }
+}
+
+const OFFSET_PATTERN = /(Z|[+-]\d{2}:?\d{2})$/i;
+const LOCAL_DATETIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})/;
+const TIME_PATTERN = /^(\d{1,2}):(\d{2})$/;
+
+/**
+ * Parses an ISO 8601 datetime. Values without an explicit offset are treated
+ * as wall-clock time in `timeZone`.
+ */
+function resolveInstant(value: string, timeZone: string): Date {
+  if (OFFSET_PATTERN.test(value)) {
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new Error(`Invalid scheduled_time: ${value}`);
+    }
+    return date;
+  }
+
+  const match = value.match(LOCAL_DATETIME_PATTERN);
+  if (!match) {
+    throw new Error(`Invalid scheduled_time: ${value}. Use ISO 8601, e.g. 2024-05-01T09:00`);
+  }
+
+  return zonedTimeToUtc(
+    {
+      year: Number(match[1]),
+      month: Number(match[2]),
+      day: Number(match[3]),
+      hour: Number(match[4]),
+      minute: Number(match[5]),
+    },
+    timeZone
+  );
+}
+
+function resolveWallClock(value: string, timeZone: string): WallClockTime {
+  const timeMatch = value.match(TIME_PATTERN);
+  if (timeMatch) {
+    const hour = Number(timeMatch[1]);
+    const minute = Number(timeMatch[2]);
+    if (hour > 23 || minute > 59) {
+      throw new Error(`Invalid scheduled_time: ${value}`);
+    }
+    return { hour, minute };
+  }
+
+  const parts = getZonedParts(resolveInstant(value, timeZone), timeZone);
+  return { hour: parts.hour, minute: parts.minute, weekday: parts.weekday, day: parts.day };
+}
+
+function buildCronExpression(input: CreateScheduleInput): string {
+  if (input.scheduleType === 'cron') {
+    if (!input.cronExpression) {
+      throw new Error('cron_expression is required when schedule_type is "cron"');
+    }
+    parseCronExpression(input.cronExpression);
+    return input.cronExpression.trim();
+  }
+
+  if (!input.scheduledTime) {
+    throw new Error(`scheduled_time is required for ${input.scheduleType} schedules`);
+  }
+
+  const time = resolveWallClock(input.scheduledTime, input.timezone);
+
+  switch (input.scheduleType) {
+    case 'daily':
+      return `${time.minute} ${time.hour} * * *`;
+    case 'weekly': {
+      const weekday = input.dayOfWeek ?? time.weekday;
+      if (weekday === undefined || weekday < 0 || weekday > 6) {
+        throw new Error('Weekly schedules need day_of_week (0-6, Sunday = 0) or a full datetime in scheduled_time');
+      }
+      return `${time.minute} ${time.hour} * * ${weekday}`;
+    }
+    case 'monthly': {
+      const day = input.dayOfMonth ?? time.day;
+      if (day === undefined || day < 1 || day > 31) {
+        throw new Error('Monthly schedules need day_of_month (1-31) or a full datetime in scheduled_time');
+      }
+      return `${time.minute} ${time.hour} ${day} * *`;
+    }
+    default:
+      throw new Error(`Unsupported schedule_type: ${input.scheduleType}`);
+  }
+}
@@ -0,0 +1,229 @@
+import { Tool, CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { AUDIT_ENTRY_TYPES, AuditLog, AuditQuery } from '../audit/audit-log.js';
+import { HexAuditEntry } from '../types/index.js';
+import { formatDuration } from '../utils/format.js';
+import { logger } from '../utils/logger.js';
+import { toolResult } from '../utils/output.js';
+import { formatDate, getRenderOptions, markdownTable, RenderOptions } from '../utils/render.js';
+
+const DEFAULT_QUERY_LIMIT = 50;
+const MAX_QUERY_LIMIT = 500;
+
+function parseDate(value: unknown, key: string): Date | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = typeof value === 'string' ? new Date(value) : undefined;
+  if (!date || isNaN(date.getTime())) {
+    throw new Error(`Invalid ${key}: ${String(value)}. Use ISO 8601, e.g. 2024-05-01T09:00:00Z`);
+  }
+  return date;
+}
+
+function identityOf(entry: HexAuditEntry): string {
+  if (entry.clientTokenId) {
+    return `client token ${entry.clientTokenId}`;
+  }
+  return entry.profile ?? '-';
+}
+
+function formatRuns(entry: HexAuditEntry): string {
+  return entry.runs.map(run => `${run.action} ${run.projectId}/${run.runId}`).join(', ');
+}
+
+function renderEntry(entry: HexAuditEntry, options: RenderOptions): string {
+  let content = `**${formatDate(entry.timestamp, options)}** ${entry.type} \`${entry.name}\` - ${entry.outcome}` +
+    ` in ${formatDuration(entry.durationMs)}\n`;
+  content += `- Caller: ${identityOf(entry)}`;
+  content += entry.sessionId ? `, session ${entry.sessionId} (${entry.transport ?? 'unknown transport'})` : '';
+  content += entry.client ? `, client ${entry.client}` : '';
+  content += '\n';
+
+  if (entry.arguments && Object.keys(entry.arguments).length > 0) {
+    content += `- Arguments: \`${JSON.stringify(entry.arguments)}\`\n`;
+  }
+  if (entry.runs.length > 0) {
+    content += `- Runs: ${formatRuns(entry)}\n`;
+  }
+  if (entry.apiRequests.length > 0) {
+    content += `- API requests: ${entry.apiRequests.map(request =>
+      `${request.method} ${request.endpoint} → ${request.status ?? request.error ?? 'no response'}`
+    ).join('; ')}\n`;
+  }
+  if (entry.error) {
+    content += `- Error: ${entry.error}\n`;
+  }
+
+  return content;
+}
+
+export class HexAuditTools {
+  constructor(private auditLog: AuditLog) {}
+
+  getToolDefinitions(): Tool[] {
+    return [
+      {
+        name: 'hex_audit_query',
+        description: 'Search the audit log of tool calls, resource reads, scheduled runs and every other Hex API request, e.g. to find who started or cancelled runs of a project, with the Hex API requests each call made',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            project_id: {
+              type: 'string',
+              description: 'Only entries that touched this project, through their arguments, API requests or runs',
+            },
+            run_id: {
+              type: 'string',
+              description: 'Only entries that started, cancelled or requested this run',
+            },
+            tool: {
+              type: 'string',
+              description: 'Only calls of this tool, e.g. "hex_run_project"',
+            },
+            type: {
+              type: 'string',
+              enum: AUDIT_ENTRY_TYPES,
+              description: 'Only entries of this type',
+            },
+            session_id: {
+              type: 'string',
+              description: 'Only entries from this client session',
+            },
+            caller_profile: {
+              type: 'string',
+              description: 'Only entries run with this profile, including profiles no longer configured',
+            },
+            client_token_id: {
+              type: 'string',
+              description: 'Only entries from HTTP clients using the Hex token with this ID',
+            },
+            outcome: {
+              type: 'string',
+              enum: ['success', 'error'],
+              description: 'Only successful or only failed entries',
+            },
+            runs_only: {
+              type: 'boolean',
+              description: 'Only entries that started or cancelled runs',
+              default: false,
+            },
+            since: {
+              type: 'string',
+              description: 'Only entries at or after this time (ISO 8601)',
+            },
+            until: {
+              type: 'string',
+              description: 'Only entries at or before this time (ISO 8601)',
+            },
+            limit: {
+              type: 'number',
+              description: 'Maximum entries to return, newest first',
+              minimum: 1,
+              maximum: MAX_QUERY_LIMIT,
+              default: DEFAULT_QUERY_LIMIT,
+            },
+          },
+        },
+      },
+    ];
+  }
+
+  canHandleTool(name: string): boolean {
+    return name === 'hex_audit_query';
+  }
+
+  async callTool(name: string, args: Record<string, unknown>): Promise<CallToolResult> {
+    switch (name) {
+      case 'hex_audit_query':
+        return this.queryAuditLog(args);
+      default:
+        throw new Error(`Unknown tool: ${name}`);
+    }
+  }
+
+  private async queryAuditLog(args: Record<string, unknown>): Promise<CallToolResult> {
+    try {
+      if (!this.auditLog.enabled) {
+        throw new Error('Audit logging is disabled (HEX_AUDIT_ENABLED=false)');
+      }
+
+      const query: AuditQuery = {
+        limit: typeof args.limit === 'number'
+          ? Math.min(MAX_QUERY_LIMIT, Math.max(1, Math.floor(args.limit)))
+          : DEFAULT_QUERY_LIMIT,
+      };
+      const since = parseDate(args.since, 'since');
+      const until = parseDate(args.until, 'until');
+
+      if (since) {
+        query.since = since;
+      }
+      if (until) {
+        query.until = until;
+      }
+      if (typeof args.project_id === 'string') {
+        query.projectId = args.project_id;
+      }
+      if (typeof args.run_id === 'string') {
+        query.runId = args.run_id;
+      }
+      if (typeof args.tool === 'string') {
+        query.name = args.tool;
+      }
+      if (AUDIT_ENTRY_TYPES.includes(args.type as HexAuditEntry['type'])) {
+        query.type = args.type as HexAuditEntry['type'];
+      }
+      if (typeof args.session_id === 'string') {
+        query.sessionId = args.session_id;
+      }
+      if (typeof args.caller_profile === 'string') {
+        query.profile = args.caller_profile;
+      }
+      if (typeof args.client_token_id === 'string') {
+        query.clientTokenId = args.client_token_id;
+      }
+      if (args.outcome === 'success' || args.outcome === 'error') {
+        query.outcome = args.outcome;
+      }
+      if (args.runs_only === true) {
+        query.runsOnly = true;
+      }
+
+      logger.debug('Querying audit log:', query);
+
+      const { entries, filesSearched, truncated } = await this.auditLog.query(query);
+      const options = getRenderOptions(args);
+
+      let content = `**Audit Log** (${entries.length} entr${entries.length !== 1 ? 'ies' : 'y'}, newest first)\n\n`;
+
+      if (entries.length === 0) {
+        content += `No entries match. Searched ${filesSearched} file${filesSearched !== 1 ? 's' : ''} starting at ${this.auditLog.getPath()}.`;
+      } else if (options.mode === 'compact') {
+        content += markdownTable(
+          ['Time', 'Type', 'Name', 'Caller', 'Session', 'Outcome', 'Duration', 'Runs'],
+          entries.map(entry => [
+            formatDate(entry.timestamp, options),
+            entry.type,
+            entry.name,
+            identityOf(entry),
+            entry.sessionId ?? '-',
+            entry.outcome,
+            formatDuration(entry.durationMs),
+            formatRuns(entry),
+          ])
+        );
+      } else {
+        content += entries.map(entry => renderEntry(entry, options)).join('\n');
+      }
+
+      if (truncated) {
+        content += `\n*More entries match; narrow the query or raise limit (max ${MAX_QUERY_LIMIT}).*`;
+      }
+
+      return toolResult(args, content, { entries, truncated, filesSearched });
+    } catch (error) {
+      logger.error('Error querying audit log:', error);
+      throw error;
+    }
+  }
+}
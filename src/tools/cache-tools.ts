@@ -0,0 +1,95 @@
+import { Tool, CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { HexAuth } from '../auth/hex-auth.js';
+import { config } from '../utils/config.js';
+import { formatDuration } from '../utils/format.js';
+import { logger } from '../utils/logger.js';
+import { toolResult } from '../utils/output.js';
+import { formatDate, getRenderOptions } from '../utils/render.js';
+
+export class HexCacheTools {
+  constructor(private auth: HexAuth) {}
+
+  getToolDefinitions(): Tool[] {
+    return [
+      {
+        name: 'hex_cache_status',
+        description: 'Show how many Hex API responses are cached, the hit rate, and the configured TTLs',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+      {
+        name: 'hex_clear_cache',
+        description: 'Clear cached Hex API responses so the next request fetches fresh data (e.g. after creating or editing projects in Hex)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            project_id: {
+              type: 'string',
+              description: 'Only clear cached data for this project. The project list cache is cleared only when omitted.',
+            },
+          },
+        },
+      },
+    ];
+  }
+
+  canHandleTool(name: string): boolean {
+    return ['hex_cache_status', 'hex_clear_cache'].includes(name);
+  }
+
+  async callTool(name: string, args: Record<string, unknown>): Promise<CallToolResult> {
+    switch (name) {
+      case 'hex_cache_status':
+        return this.getCacheStatus(args);
+      case 'hex_clear_cache':
+        return this.clearCache(args);
+      default:
+        throw new Error(`Unknown tool: ${name}`);
+    }
+  }
+
+  private async getCacheStatus(args: Record<string, unknown>): Promise<CallToolResult> {
+    const stats = this.auth.getCacheStats();
+    const lookups = stats.hits + stats.misses;
+    const ttl = (ms: number) => ms > 0 ? formatDuration(ms) : 'disabled';
+
+    let content = `**Response Cache**\n\n`;
+    content += `**Entries:** ${stats.entries} / ${stats.maxEntries}\n`;
+    content += `**Hits:** ${stats.hits}\n`;
+    content += `**Misses:** ${stats.misses}\n`;
+    content += `**Hit Rate:** ${lookups > 0 ? `${((stats.hits / lookups) * 100).toFixed(1)}%` : 'N/A'}\n`;
+
+    if (stats.oldestEntryAt) {
+      content += `**Oldest Entry:** ${formatDate(stats.oldestEntryAt, getRenderOptions(args))}\n`;
+    }
+
+    content += `\n**TTLs**\n`;
+    content += `- Project list: ${ttl(config.cacheProjectListTtlMs)}\n`;
+    content += `- Project details: ${ttl(config.cacheProjectTtlMs)}\n`;
+    content += `- Completed runs: ${ttl(config.cacheCompletedRunTtlMs)}\n`;
+
+    return toolResult(args, content, {
+      ...stats,
+      ttlMs: {
+        projectList: config.cacheProjectListTtlMs,
+        project: config.cacheProjectTtlMs,
+        completedRun: config.cacheCompletedRunTtlMs,
+      },
+    });
+  }
+
+  private async clearCache(args: Record<string, unknown>): Promise<CallToolResult> {
+    const projectId = typeof args.project_id === 'string' ? args.project_id : undefined;
+    const removed = this.auth.clearCache(projectId);
+
+    logger.info(`Cleared ${removed} cached response(s)${projectId ? ` for project ${projectId}` : ''}`);
+
+    return toolResult(
+      args,
+      `**Cache Cleared**\n\nRemoved ${removed} cached response${removed !== 1 ? 's' : ''}${projectId ? ` for project ${projectId}` : ''}.`,
+      { removed, ...(projectId && { projectId }) }
+    );
+  }
+}
@@ -1,14 +1,164 @@
 import { Tool, CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { recordRunEvent } from '../audit/audit-log.js';
 import { HexAuth } from '../auth/hex-auth.js';
+import { runUri } from '../resources/hex-resources.js';
 import { 
   HexProjectRun, 
-  HexRunProjectRequest, 
-  HexRunProjectResponse 
+  HexProjectRunListResponse,
+  HexRunProjectRequest,
+  HexRunStatus,
+  ToolCallContext
 } from '../types/index.js';
+import {
+  BatchRunResult,
+  batchRunCells,
+  countByStatus,
+  executeBatchRun,
+  renderBatchNotes,
+  renderBatchSummary
+} from '../utils/batch-run.js';
+import { runWithConcurrency } from '../utils/concurrency.js';
+import { deepDiff, NumericChange, numericChange, ValueDifference } from '../utils/diff.js';
+import {
+  ConfirmationTokens,
+  DRY_RUN_PROPERTIES,
+  estimateMakespan,
+  estimateRunDuration,
+  formatDurationEstimate
+} from '../utils/dry-run.js';
+import { formatDuration } from '../utils/format.js';
+import {
+  getAllProjects,
+  getProject,
+  getRunDurationMs,
+  getRun,
+  getRunHistory,
+  isTerminalRunStatus,
+  triggerRun,
+  waitForRun
+} from '../utils/hex-api.js';
+import { checkInputParams, checkInputParamSets } from '../utils/input-params.js';
 import { logger } from '../utils/logger.js';
+import { toolResult } from '../utils/output.js';
+import {
+  formatDate,
+  getRenderOptions,
+  markdownTable,
+  renderRun,
+  renderRunList,
+  statusEmoji
+} from '../utils/render.js';
+import { median, percentile } from '../utils/stats.js';
+
+type AnalyticsGroupBy = 'day' | 'week' | 'month' | 'project' | 'user';
+
+const GROUP_BY_OPTIONS: AnalyticsGroupBy[] = ['day', 'week', 'month', 'project', 'user'];
+
+const TIME_RANGE_MS: Record<string, number> = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+  '90d': 90 * 24 * 60 * 60 * 1000,
+};
+
+// Runs analysed per project; busier projects are reported as truncated
+const ANALYTICS_MAX_RUNS = 1000;
+
+// Projects a workspace-wide monitor scans; each costs one or two rate-limited requests
+const DEFAULT_MONITOR_MAX_PROJECTS = 20;
+const MAX_MONITOR_MAX_PROJECTS = 200;
+
+interface RunSummary {
+  total: number;
+  statusCounts: Record<string, number>;
+  successRate?: number;
+  p50?: number;
+  p95?: number;
+  max?: number;
+}
+
+interface RuntimeTrend {
+  name: string;
+  before: number;
+  after: number;
+  change: number;
+}
+
+interface InputParamChange {
+  name: string;
+  change: 'changed' | 'added' | 'unchanged';
+  before?: unknown;
+  after: unknown;
+}
+
+type SweepRunResult = BatchRunResult & { parameters: Record<string, unknown> };
+
+const DEFAULT_SWEEP_MAX_RUNS = 50;
+
+/** Extra markdown and JSON fields a caller adds to the run report, e.g. the parameter diff of a rerun. */
+interface RunReportExtras {
+  markdown: string;
+  data: Record<string, unknown>;
+}
+
+const RUN_OPTION_PROPERTIES = {
+  update_published_results: {
+    type: 'boolean',
+    description: 'Whether to update published app results cache',
+    default: false,
+  },
+  use_cached_sql_results: {
+    type: 'boolean',
+    description: 'Whether to use cached SQL query results for performance',
+    default: true,
+  },
+  wait: {
+    type: 'boolean',
+    description: 'Wait for the run to finish and return its final status, outputs or error',
+    default: false,
+  },
+  max_wait_seconds: {
+    type: 'number',
+    description: 'Maximum time to wait when wait is true; on timeout the run ID is returned so you can resume',
+    minimum: 1,
+    default: 300,
+  },
+  validate_inputs: {
+    type: 'boolean',
+    description: 'Compare input_params with recent runs and warn about unknown keys, missing commonly-used keys and type mismatches',
+    default: true,
+  },
+  strict_inputs: {
+    type: 'boolean',
+    description: 'Do not start the run if input validation produces warnings',
+    default: false,
+  },
+  notification_config: {
+    type: 'object',
+    description: 'Notification configuration for run completion',
+    properties: {
+      on_success: {
+        type: 'boolean',
+        description: 'Send notification on successful completion',
+        default: false,
+      },
+      on_failure: {
+        type: 'boolean',
+        description: 'Send notification on failure',
+        default: true,
+      },
+      emails: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Email addresses to notify',
+      },
+    },
+  },
+  ...DRY_RUN_PROPERTIES,
+};
 
 export class HexExecutionTools {
-  constructor(private auth: HexAuth) {}
+  constructor(private auth: HexAuth, private confirmations: ConfirmationTokens) {}
 
   getToolDefinitions(): Tool[] {
     return [
@@ -26,41 +176,86 @@ export class HexExecutionTools {
               type: 'object',
               description: 'Input parameters to pass to the project',
             },
-            update_published_results: {
-              type: 'boolean',
-              description: 'Whether to update published app results cache',
-              default: false,
+            ...RUN_OPTION_PROPERTIES,
+          },
+          required: ['project_id'],
+        },
+      },
+      {
+        name: 'hex_rerun',
+        description: 'Run a project again with the input parameters of a previous run, optionally overriding some of them, and report what changed',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            project_id: {
+              type: 'string',
+              description: 'The unique identifier of the project to run',
             },
-            use_cached_sql_results: {
-              type: 'boolean',
-              description: 'Whether to use cached SQL query results for performance',
-              default: true,
+            run_id: {
+              type: 'string',
+              description: 'Run to copy input parameters from. Omit to use the most recent successful run',
             },
-            notification_config: {
+            overrides: {
               type: 'object',
-              description: 'Notification configuration for run completion',
-              properties: {
-                on_success: {
-                  type: 'boolean',
-                  description: 'Send notification on successful completion',
-                  default: false,
-                },
-                on_failure: {
-                  type: 'boolean',
-                  description: 'Send notification on failure',
-                  default: true,
-                },
-                emails: {
-                  type: 'array',
-                  items: { type: 'string' },
-                  description: 'Email addresses to notify',
-                },
-              },
+              description: 'Input parameters to change or add, e.g. {"region": "EMEA"}',
             },
+            ...RUN_OPTION_PROPERTIES,
           },
           required: ['project_id'],
         },
       },
+      {
+        name: 'hex_parameter_sweep',
+        description: 'Run a project once for every combination of the given parameter values (e.g. region × quarter), wait for all runs, and report each combination\'s status and outputs',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            project_id: {
+              type: 'string',
+              description: 'The unique identifier of the project to run',
+            },
+            input_params: {
+              type: 'object',
+              description: 'Input parameters shared by every run; swept parameters override these',
+            },
+            sweep: {
+              type: 'object',
+              description: 'Map of parameter name to the list of values to try, e.g. {"region": ["NA", "EMEA"], "quarter": ["Q1", "Q2"]}. One run is started per combination',
+              additionalProperties: { type: 'array' },
+            },
+            output_fields: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Output parameters to include in the results, dot-separated for nested values (e.g. "metrics.revenue"). Defaults to every top-level output with a scalar value',
+            },
+            max_runs: {
+              type: 'number',
+              description: `Refuse to start the sweep if it has more combinations than this (default: ${DEFAULT_SWEEP_MAX_RUNS})`,
+              minimum: 1,
+              default: DEFAULT_SWEEP_MAX_RUNS,
+            },
+            max_concurrent: {
+              type: 'number',
+              description: 'Maximum number of runs in flight at once',
+              minimum: 1,
+              maximum: 10,
+              default: 3,
+            },
+            max_wait_seconds: {
+              type: 'number',
+              description: 'Maximum time to wait for each run to finish before reporting its last known status',
+              minimum: 1,
+              default: 600,
+            },
+            use_cached_sql_results: RUN_OPTION_PROPERTIES.use_cached_sql_results,
+            update_published_results: RUN_OPTION_PROPERTIES.update_published_results,
+            validate_inputs: RUN_OPTION_PROPERTIES.validate_inputs,
+            strict_inputs: RUN_OPTION_PROPERTIES.strict_inputs,
+            ...DRY_RUN_PROPERTIES,
+          },
+          required: ['project_id', 'sweep'],
+        },
+      },
       {
         name: 'hex_get_run_status',
         description: 'Get the status and details of a specific project run',
@@ -79,6 +274,38 @@ export class HexExecutionTools {
           required: ['project_id', 'run_id'],
         },
       },
+      {
+        name: 'hex_compare_runs',
+        description: 'Compare two runs side by side: deep differences in input and output parameters, numeric deltas with percent change, and duration',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            project_id: {
+              type: 'string',
+              description: 'Project of the baseline run',
+            },
+            run_id: {
+              type: 'string',
+              description: 'The baseline run',
+            },
+            compare_project_id: {
+              type: 'string',
+              description: 'Project of the run to compare against the baseline (defaults to project_id)',
+            },
+            compare_run_id: {
+              type: 'string',
+              description: 'The run to compare against the baseline',
+            },
+            max_differences: {
+              type: 'number',
+              description: 'Maximum number of differences listed per section in markdown output; JSON output always includes all of them',
+              minimum: 1,
+              default: 50,
+            },
+          },
+          required: ['project_id', 'run_id', 'compare_run_id'],
+        },
+      },
       {
         name: 'hex_cancel_run',
         description: 'Cancel an ongoing project run',
@@ -93,6 +320,7 @@ export class HexExecutionTools {
               type: 'string',
               description: 'The unique identifier of the run to cancel',
             },
+            ...DRY_RUN_PROPERTIES,
           },
           required: ['project_id', 'run_id'],
         },
@@ -119,13 +347,17 @@ export class HexExecutionTools {
               enum: ['PENDING', 'RUNNING', 'SUCCESS', 'ERROR', 'CANCELLED'],
               description: 'Filter runs by status',
             },
+            after: {
+              type: 'string',
+              description: 'Cursor for pagination (from a previous response)',
+            },
           },
           required: ['project_id'],
         },
       },
       {
         name: 'hex_get_execution_analytics',
-        description: 'Get analytics and performance metrics for project executions',
+        description: 'Compute run counts, success rate, runtime percentiles, failure reasons and trends from project run history',
         inputSchema: {
           type: 'object',
           properties: {
@@ -155,7 +387,7 @@ export class HexExecutionTools {
       },
       {
         name: 'hex_monitor_active_runs',
-        description: 'Monitor all currently active (running or pending) project executions',
+        description: 'Monitor currently active (running or pending) project executions with elapsed time, ETA and stuck-run detection',
         inputSchema: {
           type: 'object',
           properties: {
@@ -174,44 +406,25 @@ export class HexExecutionTools {
               description: 'Indicate if this is for auto-refresh monitoring',
               default: false,
             },
-          },
-        },
-      },
-      {
-        name: 'hex_schedule_project_run',
-        description: 'Schedule a project to run at a specific time or with a recurring schedule',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            project_id: {
-              type: 'string',
-              description: 'The unique identifier of the project',
-            },
-            schedule_type: {
-              type: 'string',
-              enum: ['once', 'daily', 'weekly', 'monthly'],
-              description: 'Type of schedule',
-              default: 'once',
-            },
-            scheduled_time: {
-              type: 'string',
-              description: 'When to run (ISO 8601 format for "once", time for recurring)',
-            },
-            input_params: {
-              type: 'object',
-              description: 'Input parameters to pass to the project',
+            stuck_multiplier: {
+              type: 'number',
+              description: 'Flag running runs as likely stuck once they exceed this multiple of the project\'s median run time',
+              minimum: 1,
+              default: 3,
             },
-            timezone: {
-              type: 'string',
-              description: 'Timezone for scheduled execution (e.g., "America/New_York")',
-              default: 'UTC',
+            project_ids: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Only check these projects (defaults to the most recently updated projects in the workspace, up to max_projects)',
             },
-            notification_config: {
-              type: 'object',
-              description: 'Notification configuration for scheduled runs',
+            max_projects: {
+              type: 'number',
+              description: 'Without project_ids, how many of the most recently updated projects to check. Each costs one or two API requests against the 60 per minute rate limit',
+              minimum: 1,
+              maximum: MAX_MONITOR_MAX_PROJECTS,
+              default: DEFAULT_MONITOR_MAX_PROJECTS,
             },
           },
-          required: ['project_id', 'scheduled_time'],
         },
       },
     ];
@@ -220,21 +433,33 @@ export class HexExecutionTools {
   canHandleTool(name: string): boolean {
     return [
       'hex_run_project',
+      'hex_rerun',
+      'hex_parameter_sweep',
       'hex_get_run_status', 
+      'hex_compare_runs',
       'hex_cancel_run',
       'hex_get_project_runs',
       'hex_get_execution_analytics',
-      'hex_monitor_active_runs',
-      'hex_schedule_project_run'
+      'hex_monitor_active_runs'
     ].includes(name);
   }
 
-  async callTool(name: string, args: Record<string, unknown>): Promise<CallToolResult> {
+  async callTool(
+    name: string,
+    args: Record<string, unknown>,
+    context: ToolCallContext = {}
+  ): Promise<CallToolResult> {
     switch (name) {
       case 'hex_run_project':
-        return this.runProject(args);
+        return this.runProject(args, context);
+      case 'hex_rerun':
+        return this.rerun(args, context);
+      case 'hex_parameter_sweep':
+        return this.parameterSweep(args, context);
       case 'hex_get_run_status':
         return this.getRunStatus(args);
+      case 'hex_compare_runs':
+        return this.compareRuns(args);
       case 'hex_cancel_run':
         return this.cancelRun(args);
       case 'hex_get_project_runs':
@@ -243,77 +468,396 @@ export class HexExecutionTools {
         return this.getExecutionAnalytics(args);
       case 'hex_monitor_active_runs':
         return this.monitorActiveRuns(args);
-      case 'hex_schedule_project_run':
-        return this.scheduleProjectRun(args);
       default:
         throw new Error(`Unknown tool: ${name}`);
     }
   }
 
-  private async runProject(args: Record<string, unknown>): Promise<CallToolResult> {
+  private async runProject(
+    args: Record<string, unknown>,
+    context: ToolCallContext,
+    extras: RunReportExtras = { markdown: '', data: {} }
+  ): Promise<CallToolResult> {
     try {
       const projectId = args.project_id;
       if (typeof projectId !== 'string') {
         throw new Error('project_id must be a string');
       }
 
-      const requestBody: HexRunProjectRequest = {
+      const requestBody = buildRunRequest(
         projectId,
-      };
-
-      if (args.input_params && typeof args.input_params === 'object') {
-        requestBody.inputParams = args.input_params as Record<string, unknown>;
-      }
+        args.input_params && typeof args.input_params === 'object'
+          ? args.input_params as Record<string, unknown>
+          : undefined,
+        args
+      );
 
-      if (typeof args.update_published_results === 'boolean') {
-        requestBody.updatePublishedResults = args.update_published_results;
-      }
+      const warnings = args.validate_inputs === false
+        ? []
+        : (await checkInputParams(this.auth, projectId, requestBody.inputParams || {})).warnings;
 
-      if (typeof args.use_cached_sql_results === 'boolean') {
-        requestBody.useCachedSqlResults = args.use_cached_sql_results;
+      if (warnings.length > 0 && args.strict_inputs === true) {
+        throw new Error(
+          `Run not started because input validation failed (strict_inputs):\n- ${warnings.join('\n- ')}\n` +
+          'Use hex_get_project_inputs to see the inputs recent runs used.'
+        );
       }
 
-      if (args.notification_config && typeof args.notification_config === 'object') {
-        requestBody.notificationConfig = args.notification_config as any;
+      if (args.dry_run === true) {
+        return this.previewRun(requestBody, args, warnings, extras);
       }
 
-      logger.debug('Running project:', projectId);
-
-      const response = await this.auth.makeRequest<HexRunProjectResponse>(`/projects/${projectId}/runs`, {
-        method: 'POST',
-        body: requestBody,
-      });
+      this.confirmations.redeem(args.confirm_token, 'run', requestBody);
+      const response = await triggerRun(this.auth, requestBody);
 
-      if (this.auth.isApiError(response)) {
-        throw new Error(response.error.message);
+      if (args.wait === true) {
+        return this.waitForRunCompletion(projectId, response.runId, args, context, warnings, extras);
       }
 
       let content = `**Project Run Started Successfully**\n\n`;
       content += `**Project ID:** ${projectId}\n`;
       content += `**Run ID:** ${response.runId}\n`;
       content += `**Status:** ${response.status}\n`;
-      content += `**Started At:** ${new Date(response.startedAt).toLocaleString()}\n\n`;
-      
+      content += `**Started At:** ${formatDate(response.startedAt, getRenderOptions(args))}\n\n`;
+      content += extras.markdown;
+
       if (requestBody.inputParams) {
         content += `**Input Parameters:**\n\`\`\`json\n${JSON.stringify(requestBody.inputParams, null, 2)}\n\`\`\`\n\n`;
       }
 
-      content += `*Use \`hex_get_run_status\` with project_id="${projectId}" and run_id="${response.runId}" to check the progress.*`;
+      content += formatInputWarnings(warnings);
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: content,
-          },
-        ],
-      };
+      content += `*Use \`hex_get_run_status\` with project_id="${projectId}" and run_id="${response.runId}" to check the progress, `;
+      content += `or subscribe to ${runUri(projectId, response.runId)} for status updates.*`;
+
+      return toolResult(args, content, { projectId, ...response, ...extras.data, inputWarnings: warnings });
     } catch (error) {
       logger.error('Error running project:', error);
       throw error;
     }
   }
 
+  /** Reports what a run would do, without starting it: the project, the exact request and how long it usually takes. */
+  private async previewRun(
+    requestBody: HexRunProjectRequest,
+    args: Record<string, unknown>,
+    warnings: string[],
+    extras: RunReportExtras
+  ): Promise<CallToolResult> {
+    const projectId = requestBody.projectId;
+    const [project, estimate] = await Promise.all([
+      getProject(this.auth, projectId),
+      estimateRunDuration(this.auth, projectId),
+    ]);
+    const confirmation = this.confirmations.issue('run', requestBody);
+
+    let content = `**Dry Run: Project Run Not Started**\n\n`;
+    content += `**Project:** ${project.name} (${projectId}), ${project.status}\n`;
+    content += `**Request:** \`POST /projects/${projectId}/runs\`\n`;
+    content += `\`\`\`json\n${JSON.stringify(requestBody, null, 2)}\n\`\`\`\n`;
+    content += `**Estimated Duration:** ${formatDurationEstimate(estimate)}\n\n`;
+    content += extras.markdown;
+    content += formatInputWarnings(warnings);
+    content += `*To start this run, call again with the same arguments without dry_run and with confirm_token="${confirmation.token}" `;
+    content += `(valid until ${formatDate(confirmation.expiresAt, getRenderOptions(args))}).*`;
+
+    return toolResult(args, content, {
+      dryRun: true,
+      project: { projectId, name: project.name, status: project.status },
+      request: { method: 'POST', path: `/projects/${projectId}/runs`, body: requestBody },
+      estimatedDuration: estimate,
+      ...extras.data,
+      inputWarnings: warnings,
+      confirmToken: confirmation.token,
+      confirmTokenExpiresAt: confirmation.expiresAt,
+    });
+  }
+
+  private async waitForRunCompletion(
+    projectId: string,
+    runId: string,
+    args: Record<string, unknown>,
+    context: ToolCallContext,
+    warnings: string[],
+    extras: RunReportExtras
+  ): Promise<CallToolResult> {
+    const maxWaitSeconds = typeof args.max_wait_seconds === 'number' && args.max_wait_seconds > 0
+      ? args.max_wait_seconds
+      : 300;
+    const startedAt = Date.now();
+
+    logger.debug('Waiting for run to complete:', { projectId, runId, maxWaitSeconds });
+
+    const { run, timedOut } = await waitForRun(this.auth, projectId, runId, {
+      timeoutMs: maxWaitSeconds * 1000,
+      ...(context.signal && { signal: context.signal }),
+      onUpdate: (update) => {
+        const elapsedSeconds = Math.round((Date.now() - startedAt) / 1000);
+        context.sendProgress?.(
+          Math.min(elapsedSeconds, maxWaitSeconds),
+          maxWaitSeconds,
+          `Run ${runId} is ${update.status} after ${formatDuration(Date.now() - startedAt)}`
+        ).catch(error => logger.debug('Failed to send progress notification:', error));
+      },
+    });
+
+    if (timedOut) {
+      let content = `**Project Run Still In Progress**\n\n`;
+      content += `Stopped waiting after ${maxWaitSeconds} seconds; the run is still ${run.status}.\n\n`;
+      content += renderRun(run, getRenderOptions(args)) + '\n';
+      content += extras.markdown;
+      content += formatInputWarnings(warnings);
+      content += `\n*Resume with \`hex_get_run_status\` using project_id="${projectId}" and run_id="${runId}", `;
+      content += `or subscribe to ${runUri(projectId, runId)} for status updates.*`;
+
+      return toolResult(args, content, { run, timedOut, ...extras.data, inputWarnings: warnings });
+    }
+
+    const content = `**Project Run Finished**\n\n` + renderRun(run, getRenderOptions(args)) + '\n' +
+      extras.markdown + formatInputWarnings(warnings);
+
+    return toolResult(args, content, { run, timedOut, ...extras.data, inputWarnings: warnings });
+  }
+
+  private async rerun(args: Record<string, unknown>, context: ToolCallContext): Promise<CallToolResult> {
+    try {
+      const projectId = args.project_id;
+      if (typeof projectId !== 'string') {
+        throw new Error('project_id must be a string');
+      }
+
+      if (args.overrides !== undefined && (typeof args.overrides !== 'object' || args.overrides === null || Array.isArray(args.overrides))) {
+        throw new Error('overrides must be an object of input parameters');
+      }
+
+      let sourceRun: HexProjectRun | undefined;
+      if (typeof args.run_id === 'string') {
+        sourceRun = await getRun(this.auth, projectId, args.run_id);
+      } else {
+        [sourceRun] = await getRunHistory(this.auth, projectId, { status: 'SUCCESS', maxRuns: 1 });
+        if (!sourceRun) {
+          throw new Error(`Project ${projectId} has no successful runs to rerun. Pass run_id to rerun a specific run.`);
+        }
+      }
+
+      const previousParams = sourceRun.inputParams || {};
+      const overrides = (args.overrides || {}) as Record<string, unknown>;
+      const inputParams = { ...previousParams, ...overrides };
+      const changes = diffInputParams(previousParams, inputParams);
+
+      logger.info(`Rerunning ${sourceRun.runId} of ${projectId}`, {
+        changed: changes.filter(change => change.change !== 'unchanged').map(change => change.name),
+      });
+
+      let markdown = `**Rerun Of:** ${sourceRun.runId} (${sourceRun.status}, started ${formatDate(sourceRun.startedAt, getRenderOptions(args))})\n\n`;
+      if (changes.length > 0) {
+        markdown += `**Parameter Changes:**\n\n` + formatInputParamChanges(changes) + '\n';
+      } else {
+        markdown += `*The source run had no input parameters and no overrides were given.*\n\n`;
+      }
+
+      return this.runProject({ ...args, input_params: inputParams }, context, {
+        markdown,
+        data: { sourceRunId: sourceRun.runId, parameterChanges: changes },
+      });
+    } catch (error) {
+      logger.error('Error rerunning project:', error);
+      throw error;
+    }
+  }
+
+  private async parameterSweep(args: Record<string, unknown>, context: ToolCallContext): Promise<CallToolResult> {
+    try {
+      const projectId = args.project_id;
+      if (typeof projectId !== 'string') {
+        throw new Error('project_id must be a string');
+      }
+
+      const sweep = args.sweep;
+      if (!sweep || typeof sweep !== 'object' || Array.isArray(sweep) || Object.keys(sweep).length === 0) {
+        throw new Error('sweep must map at least one parameter name to a list of values');
+      }
+      Object.entries(sweep).forEach(([name, values]) => {
+        if (!Array.isArray(values) || values.length === 0) {
+          throw new Error(`sweep.${name} must be a non-empty array of values`);
+        }
+      });
+
+      const baseParams = args.input_params && typeof args.input_params === 'object'
+        ? args.input_params as Record<string, unknown>
+        : {};
+      const sweepValues = sweep as Record<string, unknown[]>;
+      const names = Object.keys(sweepValues);
+      const total = names.reduce((product, name) => product * (sweepValues[name] as unknown[]).length, 1);
+      const maxRuns = typeof args.max_runs === 'number' && args.max_runs > 0
+        ? Math.floor(args.max_runs)
+        : DEFAULT_SWEEP_MAX_RUNS;
+
+      if (total > maxRuns) {
+        throw new Error(
+          `The sweep has ${total} combinations, more than max_runs (${maxRuns}). ` +
+          'Sweep fewer values or raise max_runs.'
+        );
+      }
+
+      const combinations = cartesianProduct(sweepValues);
+      const maxConcurrent = typeof args.max_concurrent === 'number'
+        ? Math.min(10, Math.max(1, Math.floor(args.max_concurrent)))
+        : 3;
+      const maxWaitSeconds = typeof args.max_wait_seconds === 'number' ? args.max_wait_seconds : 600;
+
+      const warnings = args.validate_inputs === false
+        ? []
+        : (await checkInputParamSets(
+          this.auth,
+          projectId,
+          combinations.map(combination => ({ ...baseParams, ...combination }))
+        )).warnings;
+
+      if (warnings.length > 0 && args.strict_inputs === true) {
+        throw new Error(
+          `Sweep not started because input validation failed (strict_inputs):\n- ${warnings.join('\n- ')}\n` +
+          'Use hex_get_project_inputs to see the inputs recent runs used.'
+        );
+      }
+
+      const requests = combinations.map(combination => buildRunRequest(projectId, { ...baseParams, ...combination }, args));
+
+      if (args.dry_run === true) {
+        return this.previewSweep(projectId, requests, args, { names, sweepValues, maxConcurrent, warnings });
+      }
+
+      this.confirmations.redeem(args.confirm_token, 'sweep', requests);
+
+      logger.info(`Starting parameter sweep of ${projectId}`, { combinations: total, maxConcurrent });
+
+      const startedAt = Date.now();
+      let finished = 0;
+
+      const results = await runWithConcurrency(
+        combinations,
+        maxConcurrent,
+        async (combination, index): Promise<SweepRunResult> => {
+          const result: SweepRunResult = {
+            parameters: combination,
+            ...await executeBatchRun(this.auth, requests[index] as HexRunProjectRequest, {
+              timeoutMs: maxWaitSeconds * 1000,
+              ...(context.signal && { signal: context.signal }),
+            }),
+          };
+          finished++;
+          context.sendProgress?.(finished, total, `${finished} of ${total} runs finished`)
+            .catch(error => logger.debug('Failed to send progress notification:', error));
+          return result;
+        },
+        { shouldStop: () => context.signal?.aborted === true }
+      );
+
+      const rows: SweepRunResult[] = results.map((result, index) => result ?? {
+        parameters: combinations[index] as Record<string, unknown>,
+        status: 'SKIPPED',
+        error: 'Not started because the request was cancelled',
+      });
+
+      const outputFields = Array.isArray(args.output_fields)
+        ? args.output_fields.filter((field): field is string => typeof field === 'string')
+        : [...new Set(rows.flatMap(row => Object.entries(row.outputs || {})
+          .filter(([, value]) => value === null || typeof value !== 'object')
+          .map(([field]) => field)))];
+
+      rows.forEach(row => {
+        if (row.outputs) {
+          row.outputs = Object.fromEntries(outputFields.map(field => [field, getOutputField(row.outputs, field)]));
+        }
+      });
+
+      let content = `**Parameter Sweep**\n\n`;
+      content += `**Project ID:** ${projectId}\n`;
+      content += `**Combinations:** ${names.map(name => `${name} (${(sweepValues[name] as unknown[]).length})`).join(' × ')} = ${total}\n`;
+      content += `**Max Concurrent:** ${maxConcurrent}\n`;
+      content += renderBatchSummary(rows, Date.now() - startedAt);
+
+      if (Object.keys(baseParams).length > 0) {
+        content += `**Shared Input Parameters:**\n\`\`\`json\n${JSON.stringify(baseParams, null, 2)}\n\`\`\`\n\n`;
+      }
+
+      content += formatInputWarnings(warnings);
+
+      const formatValue = (value: unknown) => value === undefined ? '-' : typeof value === 'string' ? value : JSON.stringify(value);
+      content += markdownTable(
+        ['#', ...names, 'Status', 'Run ID', 'Duration', ...outputFields, 'Error'],
+        rows.map((row, index) => [
+          index + 1,
+          ...names.map(name => formatValue(row.parameters[name])),
+          ...batchRunCells(row),
+          ...outputFields.map(field => formatValue(row.outputs?.[field])),
+          row.error ?? '',
+        ])
+      );
+
+      content += renderBatchNotes(rows, maxWaitSeconds);
+
+      return toolResult(args, content, {
+        projectId,
+        inputParams: baseParams,
+        sweep: sweepValues,
+        totalTimeMs: Date.now() - startedAt,
+        counts: countByStatus(rows),
+        outputFields,
+        inputWarnings: warnings,
+        results: rows,
+      });
+    } catch (error) {
+      logger.error('Error running parameter sweep:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Previews a sweep without starting any runs: the combinations, the
+   * request for each and the expected total time at the given concurrency.
+   */
+  private async previewSweep(
+    projectId: string,
+    requests: HexRunProjectRequest[],
+    args: Record<string, unknown>,
+    sweep: { names: string[]; sweepValues: Record<string, unknown[]>; maxConcurrent: number; warnings: string[] }
+  ): Promise<CallToolResult> {
+    const { names, sweepValues, maxConcurrent, warnings } = sweep;
+    const [project, estimate] = await Promise.all([
+      getProject(this.auth, projectId),
+      estimateRunDuration(this.auth, projectId),
+    ]);
+    const totalMs = estimate.medianMs !== undefined
+      ? estimateMakespan(requests.map(() => estimate.medianMs as number), maxConcurrent)
+      : undefined;
+    const confirmation = this.confirmations.issue('sweep', requests);
+
+    let content = `**Dry Run: Parameter Sweep Not Started**\n\n`;
+    content += `**Project:** ${project.name} (${projectId}), ${project.status}\n`;
+    content += `**Combinations:** ${names.map(name => `${name} (${(sweepValues[name] as unknown[]).length})`).join(' × ')} = ${requests.length}\n`;
+    content += `**Max Concurrent:** ${maxConcurrent}\n`;
+    content += `**Estimated Duration per Run:** ${formatDurationEstimate(estimate)}\n`;
+    content += `**Estimated Total Time:** ${totalMs !== undefined ? `~${formatDuration(totalMs)}` : 'unknown'}\n\n`;
+    content += `**Requests:** \`POST /projects/${projectId}/runs\` for each combination\n`;
+    content += `\`\`\`json\n${JSON.stringify(requests, null, 2)}\n\`\`\`\n\n`;
+    content += formatInputWarnings(warnings);
+    content += `*To start this sweep, call again with the same arguments without dry_run and with confirm_token="${confirmation.token}" `;
+    content += `(valid until ${formatDate(confirmation.expiresAt, getRenderOptions(args))}).*`;
+
+    return toolResult(args, content, {
+      dryRun: true,
+      project: { projectId, name: project.name, status: project.status },
+      sweep: sweepValues,
+      requests,
+      estimatedDuration: estimate,
+      estimatedTotalMs: totalMs ?? null,
+      inputWarnings: warnings,
+      confirmToken: confirmation.token,
+      confirmTokenExpiresAt: confirmation.expiresAt,
+    });
+  }
+
   private async getRunStatus(args: Record<string, unknown>): Promise<CallToolResult> {
     try {
       const projectId = args.project_id;
@@ -336,52 +880,89 @@ export class HexExecutionTools {
         throw new Error(response.error.message);
       }
 
-      const run = response;
-      let content = `**Project Run Status**\n\n`;
-      content += `**Project ID:** ${run.projectId}\n`;
-      content += `**Run ID:** ${run.runId}\n`;
-      content += `**Status:** ${run.status}\n`;
-      content += `**Started At:** ${new Date(run.startedAt).toLocaleString()}\n`;
-      
-      if (run.completedAt) {
-        content += `**Completed At:** ${new Date(run.completedAt).toLocaleString()}\n`;
+      const content = `**Project Run Status**\n\n` + renderRun(response, getRenderOptions(args));
+
+      return toolResult(args, content, response);
+    } catch (error) {
+      logger.error('Error getting run status:', error);
+      throw error;
+    }
+  }
+
+  private async compareRuns(args: Record<string, unknown>): Promise<CallToolResult> {
+    try {
+      const projectId = args.project_id;
+      const runId = args.run_id;
+      const compareProjectId = args.compare_project_id ?? projectId;
+      const compareRunId = args.compare_run_id;
+
+      if (typeof projectId !== 'string' || typeof compareProjectId !== 'string') {
+        throw new Error('project_id and compare_project_id must be strings');
       }
-      
-      if (run.executionTime) {
-        content += `**Execution Time:** ${Math.round(run.executionTime / 1000)} seconds\n`;
+      if (typeof runId !== 'string' || typeof compareRunId !== 'string') {
+        throw new Error('run_id and compare_run_id must be strings');
       }
-      
-      content += `**Triggered By:** ${run.triggeredBy.name} (${run.triggeredBy.email})\n\n`;
 
-      if (run.status === 'SUCCESS') {
-        content += `✅ **Run completed successfully!**\n`;
-        if (run.outputParams) {
-          content += `\n**Output Parameters:**\n\`\`\`json\n${JSON.stringify(run.outputParams, null, 2)}\n\`\`\`\n`;
-        }
-      } else if (run.status === 'ERROR') {
-        content += `❌ **Run failed with error:**\n${run.errorMessage || 'Unknown error'}\n`;
-      } else if (run.status === 'CANCELLED') {
-        content += `🛑 **Run was cancelled**\n`;
-      } else if (run.status === 'RUNNING') {
-        content += `⏳ **Run is currently in progress...**\n`;
-      } else if (run.status === 'PENDING') {
-        content += `⏱️ **Run is pending execution...**\n`;
-      }
+      const maxDifferences = typeof args.max_differences === 'number' && args.max_differences > 0
+        ? Math.floor(args.max_differences)
+        : 50;
+
+      logger.debug('Comparing runs:', { projectId, runId, compareProjectId, compareRunId });
+
+      const [base, compare] = await Promise.all([
+        getRun(this.auth, projectId, runId),
+        getRun(this.auth, compareProjectId, compareRunId),
+      ]);
+
+      const inputDifferences = deepDiff(base.inputParams || {}, compare.inputParams || {});
+      const outputDifferences = deepDiff(base.outputParams || {}, compare.outputParams || {});
+      const baseDuration = getRunDurationMs(base);
+      const compareDuration = getRunDurationMs(compare);
+      const durationChange = baseDuration !== undefined && compareDuration !== undefined
+        ? numericChange(baseDuration, compareDuration)
+        : undefined;
 
-      if (run.inputParams) {
-        content += `\n**Input Parameters:**\n\`\`\`json\n${JSON.stringify(run.inputParams, null, 2)}\n\`\`\`\n`;
+      const options = getRenderOptions(args);
+      let content = `**Run Comparison**\n\n`;
+      content += `${inputDifferences.length} input and ${outputDifferences.length} output parameter difference`;
+      content += `${inputDifferences.length + outputDifferences.length !== 1 ? 's' : ''}`;
+      if (durationChange) {
+        content += `; the compared run took ${formatDurationChange(durationChange)}`;
       }
+      content += '.\n\n';
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: content,
-          },
-        ],
-      };
+      content += markdownTable(
+        ['', 'Baseline', 'Compared'],
+        [
+          ['Project', base.projectId, compare.projectId],
+          ['Run', base.runId, compare.runId],
+          ['Status', `${statusEmoji(base.status)} ${base.status}`, `${statusEmoji(compare.status)} ${compare.status}`],
+          ['Started', formatDate(base.startedAt, options), formatDate(compare.startedAt, options)],
+          ['Duration', formatStat(baseDuration), formatStat(compareDuration)],
+          ...(base.errorMessage || compare.errorMessage
+            ? [['Error', base.errorMessage ?? '', compare.errorMessage ?? '']]
+            : []),
+        ]
+      );
+
+      [base, compare]
+        .filter(run => run.status !== 'SUCCESS')
+        .forEach(run => {
+          content += `\n⚠️ Run ${run.runId} is ${run.status}, so its output parameters may be missing or incomplete.\n`;
+        });
+
+      content += `\n**Input Parameter Differences**\n\n` + formatDifferences(inputDifferences, maxDifferences);
+      content += `\n**Output Parameter Differences**\n\n` + formatDifferences(outputDifferences, maxDifferences);
+
+      return toolResult(args, content, {
+        base,
+        compare,
+        inputDifferences,
+        outputDifferences,
+        duration: { base: baseDuration, compare: compareDuration, ...durationChange },
+      });
     } catch (error) {
-      logger.error('Error getting run status:', error);
+      logger.error('Error comparing runs:', error);
       throw error;
     }
   }
@@ -398,6 +979,12 @@ export class HexExecutionTools {
         throw new Error('run_id must be a string');
       }
 
+      if (args.dry_run === true) {
+        return this.previewCancel(projectId, runId, args);
+      }
+
+      this.confirmations.redeem(args.confirm_token, 'cancel', { projectId, runId });
+
       logger.debug('Cancelling run:', { projectId, runId });
 
       const response = await this.auth.makeRequest(`/projects/${projectId}/runs/${runId}/cancel`, {
@@ -408,25 +995,64 @@ export class HexExecutionTools {
         throw new Error(response.error.message);
       }
 
+      recordRunEvent({ action: 'cancelled', projectId, runId });
+
       const content = `**Run Cancelled Successfully**\n\n` +
         `**Project ID:** ${projectId}\n` +
         `**Run ID:** ${runId}\n\n` +
         `The run has been cancelled and will stop execution.`;
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: content,
-          },
-        ],
-      };
+      return toolResult(args, content, { projectId, runId, cancelled: true });
     } catch (error) {
       logger.error('Error cancelling run:', error);
       throw error;
     }
   }
 
+  private async previewCancel(projectId: string, runId: string, args: Record<string, unknown>): Promise<CallToolResult> {
+    const [project, run, estimate] = await Promise.all([
+      getProject(this.auth, projectId),
+      getRun(this.auth, projectId, runId),
+      estimateRunDuration(this.auth, projectId),
+    ]);
+    const cancellable = !isTerminalRunStatus(run.status);
+    const elapsedMs = Date.now() - new Date(run.startedAt).getTime();
+
+    let content = `**Dry Run: Run Not Cancelled**\n\n`;
+    content += `**Project:** ${project.name} (${projectId})\n`;
+    content += `**Run:** ${runId}, ${statusEmoji(run.status)} ${run.status}, started ${formatDate(run.startedAt, getRenderOptions(args))}\n`;
+    content += `**Request:** \`POST /projects/${projectId}/runs/${runId}/cancel\` (no body)\n`;
+
+    if (!cancellable) {
+      content += `\nThe run has already finished, so there is nothing to cancel.`;
+      return toolResult(args, content, {
+        dryRun: true,
+        project: { projectId, name: project.name, status: project.status },
+        run,
+        cancellable,
+      });
+    }
+
+    content += `**Elapsed:** ${formatDuration(elapsedMs)}\n`;
+    content += `**Typical Duration:** ${formatDurationEstimate(estimate)}\n\n`;
+
+    const confirmation = this.confirmations.issue('cancel', { projectId, runId });
+    content += `*To cancel this run, call again without dry_run and with confirm_token="${confirmation.token}" `;
+    content += `(valid until ${formatDate(confirmation.expiresAt, getRenderOptions(args))}).*`;
+
+    return toolResult(args, content, {
+      dryRun: true,
+      project: { projectId, name: project.name, status: project.status },
+      run,
+      cancellable,
+      request: { method: 'POST', path: `/projects/${projectId}/runs/${runId}/cancel` },
+      elapsedMs,
+      estimatedDuration: estimate,
+      confirmToken: confirmation.token,
+      confirmTokenExpiresAt: confirmation.expiresAt,
+    });
+  }
+
   private async getProjectRuns(args: Record<string, unknown>): Promise<CallToolResult> {
     try {
       const projectId = args.project_id;
@@ -444,9 +1070,13 @@ export class HexExecutionTools {
         params.status = args.status;
       }
 
+      if (typeof args.after === 'string') {
+        params.after = args.after;
+      }
+
       logger.debug('Getting project runs for:', projectId);
 
-      const response = await this.auth.makeRequest<{ runs: HexProjectRun[] }>(`/projects/${projectId}/runs`, {
+      const response = await this.auth.makeRequest<HexProjectRunListResponse>(`/projects/${projectId}/runs`, {
         method: 'GET',
         params,
       });
@@ -463,44 +1093,18 @@ export class HexExecutionTools {
       if (runs.length === 0) {
         content += 'No runs found for this project.';
       } else {
-        runs.forEach((run, index) => {
-          const statusEmoji = {
-            'SUCCESS': '✅',
-            'ERROR': '❌',
-            'CANCELLED': '🛑',
-            'RUNNING': '⏳',
-            'PENDING': '⏱️',
-          }[run.status] || '❓';
-
-          content += `${index + 1}. ${statusEmoji} **${run.status}** (${run.runId})\n`;
-          content += `   Started: ${new Date(run.startedAt).toLocaleString()}\n`;
-          
-          if (run.completedAt) {
-            content += `   Completed: ${new Date(run.completedAt).toLocaleString()}\n`;
-          }
-          
-          if (run.executionTime) {
-            content += `   Duration: ${Math.round(run.executionTime / 1000)} seconds\n`;
-          }
-          
-          content += `   Triggered by: ${run.triggeredBy.name}\n`;
-          
-          if (run.errorMessage) {
-            content += `   Error: ${run.errorMessage}\n`;
-          }
-          
-          content += '\n';
-        });
+        content += renderRunList(runs, getRenderOptions(args));
+
+        if (response.hasMore && response.nextCursor) {
+          content += `\n*More runs are available. Use the 'after' parameter with value '${response.nextCursor}' to get the next page.*`;
+        }
       }
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: content,
-          },
-        ],
-      };
+      return toolResult(args, content, {
+        runs,
+        ...(response.hasMore !== undefined && { hasMore: response.hasMore }),
+        ...(response.nextCursor && { nextCursor: response.nextCursor }),
+      });
     } catch (error) {
       logger.error('Error getting project runs:', error);
       throw error;
@@ -509,38 +1113,138 @@ export class HexExecutionTools {
 
   private async getExecutionAnalytics(args: Record<string, unknown>): Promise<CallToolResult> {
     try {
-      const projectId = args.project_id as string;
-      const timeRange = (args.time_range as string) || '7d';
+      const projectId = typeof args.project_id === 'string' ? args.project_id : undefined;
+      const timeRange = typeof args.time_range === 'string' && args.time_range in TIME_RANGE_MS
+        ? args.time_range
+        : '7d';
       const includeFailedRuns = args.include_failed_runs !== false;
-      const groupBy = (args.group_by as string) || 'day';
+      const groupBy = typeof args.group_by === 'string' && GROUP_BY_OPTIONS.includes(args.group_by as AnalyticsGroupBy)
+        ? args.group_by as AnalyticsGroupBy
+        : 'day';
+
+      const since = new Date(Date.now() - (TIME_RANGE_MS[timeRange] as number));
+      const projectNames = new Map<string, string>();
+
+      if (projectId) {
+        projectNames.set(projectId, projectId);
+      } else {
+        const projects = await getAllProjects(this.auth);
+        projects.forEach(project => projectNames.set(project.projectId, project.name));
+      }
+
+      logger.debug('Computing execution analytics:', { projectId, timeRange, groupBy, projects: projectNames.size });
+
+      const fetchErrors: string[] = [];
+      const truncatedProjects: string[] = [];
+      const histories = await runWithConcurrency([...projectNames.keys()], 3, async (id) => {
+        try {
+          return await getRunHistory(this.auth, id, {
+            since,
+            maxRuns: ANALYTICS_MAX_RUNS,
+            onTruncated: () => truncatedProjects.push(projectNames.get(id) ?? id),
+          });
+        } catch (error) {
+          fetchErrors.push(`${projectNames.get(id)}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          return [];
+        }
+      });
+
+      const runs = histories
+        .flatMap(history => history ?? [])
+        .filter(run => includeFailedRuns || run.status !== 'ERROR');
 
       let content = `**Execution Analytics**\n\n`;
-      content += `**Time Range:** ${timeRange}\n`;
+      content += `**Time Range:** ${timeRange} (since ${formatDate(since, getRenderOptions(args))})\n`;
       content += `**Include Failed Runs:** ${includeFailedRuns}\n`;
       content += `**Group By:** ${groupBy}\n`;
-      
-      if (projectId) {
-        content += `**Project ID:** ${projectId}\n`;
-      } else {
-        content += `**Scope:** Workspace-wide\n`;
+      content += projectId
+        ? `**Project ID:** ${projectId}\n`
+        : `**Scope:** Workspace-wide (${projectNames.size} projects)\n`;
+
+      if (runs.length === 0) {
+        content += '\nNo runs found in this time range.';
+        return toolResult(args, content, { timeRange, since: since.toISOString(), groupBy, totalRuns: 0, fetchErrors, truncatedProjects });
       }
-      
-      content += '\n**Note:** This is a simulated analytics function. In a full implementation, this would:\n';
-      content += `1. Query run history for the specified time range\n`;
-      content += `2. Calculate performance metrics (avg runtime, success rate, etc.)\n`;
-      content += `3. Group data by ${groupBy} for trend analysis\n`;
-      content += `4. Generate charts and statistics\n`;
-      content += `5. Identify patterns and anomalies\n\n`;
-      content += `**Sample Metrics:**\n`;
-      content += `- Total Runs: [would be calculated from actual data]\n`;
-      content += `- Success Rate: [percentage of successful runs]\n`;
-      content += `- Average Runtime: [mean execution time]\n`;
-      content += `- Peak Usage Hours: [when most runs occur]\n`;
-      content += `- Most Active Projects: [top projects by run count]\n`;
-
-      return {
-        content: [{ type: 'text', text: content }],
-      };
+
+      const overall = summarizeRuns(runs);
+      content += `\n**Overview:**\n`;
+      content += `- Total Runs: ${overall.total}\n`;
+      content += `- By Status: ${Object.entries(overall.statusCounts).map(([status, count]) => `${status} ${count}`).join(', ')}\n`;
+      content += `- Success Rate: ${formatRate(overall.successRate)}\n`;
+      content += `- Runtime p50 / p95 / max: ${formatStat(overall.p50)} / ${formatStat(overall.p95)} / ${formatStat(overall.max)}\n`;
+
+      const failureReasons = new Map<string, number>();
+      runs
+        .filter(run => run.status === 'ERROR')
+        .forEach(run => {
+          const reason = (run.errorMessage || 'Unknown error').split('\n')[0] as string;
+          failureReasons.set(reason, (failureReasons.get(reason) || 0) + 1);
+        });
+
+      if (failureReasons.size > 0) {
+        content += `\n**Top Failure Reasons:**\n`;
+        [...failureReasons.entries()]
+          .sort((a, b) => b[1] - a[1])
+          .slice(0, 5)
+          .forEach(([reason, count]) => {
+            content += `- (${count}x) ${reason}\n`;
+          });
+      }
+
+      const groups = new Map<string, HexProjectRun[]>();
+      runs.forEach(run => {
+        const key = groupKey(run, groupBy, projectNames);
+        groups.set(key, [...(groups.get(key) || []), run]);
+      });
+
+      const groupKeys = [...groups.keys()].sort();
+      if (groupBy === 'project' || groupBy === 'user') {
+        groupKeys.sort((a, b) => (groups.get(b)?.length ?? 0) - (groups.get(a)?.length ?? 0));
+      }
+
+      content += `\n**By ${groupBy}:**\n\n`;
+      content += markdownTable(
+        [groupBy, 'Runs', 'Success Rate', 'p50', 'p95', 'Max'],
+        groupKeys.map(key => {
+          const stats = summarizeRuns(groups.get(key) || []);
+          return [key, stats.total, formatRate(stats.successRate), formatStat(stats.p50), formatStat(stats.p95), formatStat(stats.max)];
+        })
+      );
+
+      const trends = runtimeTrends(runs, since, projectNames);
+      if (trends.length > 0) {
+        content += `\n**Runtime Trends** (median of first vs. second half of the range):\n`;
+        trends.slice(0, 10).forEach(trend => {
+          const direction = trend.change > 0 ? 'slower' : 'faster';
+          content += `- ${trend.name}: ${formatDuration(trend.before)} → ${formatDuration(trend.after)} `;
+          content += `(${Math.abs(Math.round(trend.change * 100))}% ${direction})\n`;
+        });
+      }
+
+      if (truncatedProjects.length > 0) {
+        content += `\n**Warning:** Only the latest ${ANALYTICS_MAX_RUNS} runs were included for ${truncatedProjects.length} project(s), `;
+        content += `so their older runs in this range are missing: ${truncatedProjects.join(', ')}. Use a shorter time_range for complete figures.\n`;
+      }
+
+      if (fetchErrors.length > 0) {
+        content += `\n**Warning:** Run history could not be fetched for ${fetchErrors.length} project(s):\n`;
+        fetchErrors.forEach(error => {
+          content += `- ${error}\n`;
+        });
+      }
+
+      return toolResult(args, content, {
+        timeRange,
+        since: since.toISOString(),
+        groupBy,
+        totalRuns: runs.length,
+        overall,
+        failureReasons: Object.fromEntries(failureReasons),
+        groups: Object.fromEntries(groupKeys.map(key => [key, summarizeRuns(groups.get(key) || [])])),
+        trends,
+        fetchErrors,
+        truncatedProjects,
+      });
     } catch (error) {
       logger.error('Error getting execution analytics:', error);
       throw error;
@@ -552,98 +1256,361 @@ export class HexExecutionTools {
       const includePending = args.include_pending !== false;
       const showProgress = args.show_progress === true;
       const autoRefresh = args.auto_refresh === true;
+      const stuckMultiplier = typeof args.stuck_multiplier === 'number' && args.stuck_multiplier >= 1
+        ? args.stuck_multiplier
+        : 3;
+
+      const maxProjects = typeof args.max_projects === 'number'
+        ? Math.min(MAX_MONITOR_MAX_PROJECTS, Math.max(1, Math.floor(args.max_projects)))
+        : DEFAULT_MONITOR_MAX_PROJECTS;
+
+      const projectNames = new Map<string, string>();
+      let projectsSkipped = 0;
+      if (Array.isArray(args.project_ids) && args.project_ids.length > 0) {
+        (args.project_ids as string[]).forEach(id => projectNames.set(id, id));
+      } else {
+        // Scanning a large workspace would hold the rate limiter for minutes, so only the most recently updated projects are checked
+        const projects = (await getAllProjects(this.auth))
+          .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+        projects.slice(0, maxProjects).forEach(project => projectNames.set(project.projectId, project.name));
+        projectsSkipped = Math.max(0, projects.length - maxProjects);
+      }
+
+      const statuses: HexRunStatus[] = includePending ? ['RUNNING', 'PENDING'] : ['RUNNING'];
+      const queries = [...projectNames.keys()].flatMap(id => statuses.map(status => ({ id, status })));
+
+      logger.debug('Monitoring active runs:', { projects: projectNames.size, statuses });
+
+      const fetchErrors: string[] = [];
+      const activeLists = await runWithConcurrency(queries, 3, async ({ id, status }) => {
+        try {
+          return await getRunHistory(this.auth, id, { status, maxRuns: 100 });
+        } catch (error) {
+          fetchErrors.push(`${projectNames.get(id)}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          return [];
+        }
+      });
+      const activeRuns = activeLists.flatMap(list => list ?? []);
+
+      // Typical duration per project, from its recent successful runs
+      const activeProjectIds = [...new Set(activeRuns.map(run => run.projectId))];
+      const typicalDurations = new Map<string, number>();
+      await runWithConcurrency(activeProjectIds, 3, async (id) => {
+        try {
+          const history = await getRunHistory(this.auth, id, { status: 'SUCCESS', maxRuns: 20 });
+          const typical = median(
+            history
+              .map(run => getRunDurationMs(run))
+              .filter((duration): duration is number => duration !== undefined)
+          );
+          if (typical !== undefined) {
+            typicalDurations.set(id, typical);
+          }
+        } catch (error) {
+          logger.debug(`Could not load run history for ${id}:`, error);
+        }
+      });
+
+      const now = Date.now();
+      const rows = activeRuns
+        .map(run => {
+          const elapsed = now - new Date(run.startedAt).getTime();
+          const typical = typicalDurations.get(run.projectId);
+          const stuck = run.status === 'RUNNING' && typical !== undefined && elapsed > typical * stuckMultiplier;
+          return { run, elapsed, typical, stuck };
+        })
+        .sort((a, b) => b.elapsed - a.elapsed);
+
+      const runningCount = rows.filter(row => row.run.status === 'RUNNING').length;
+      const pendingCount = rows.length - runningCount;
+      const stuckCount = rows.filter(row => row.stuck).length;
 
       let content = `**Active Runs Monitor**\n\n`;
-      content += `**Include Pending:** ${includePending}\n`;
-      content += `**Show Progress:** ${showProgress}\n`;
-      
+      content += `**Checked At:** ${formatDate(new Date(now), getRenderOptions(args))}\n`;
+      content += `**Projects Checked:** ${projectNames.size}`;
+      content += projectsSkipped > 0 ? ` of ${projectNames.size + projectsSkipped} (most recently updated)\n` : '\n';
+      content += `**Running:** ${runningCount}`;
+      content += includePending ? ` | **Pending:** ${pendingCount}` : '';
+      content += ` | **Likely Stuck:** ${stuckCount}\n`;
+
       if (autoRefresh) {
         content += `**Mode:** Auto-refresh monitoring\n`;
       }
-      
-      content += '\n**Note:** This is a simulated monitoring function. In a full implementation, this would:\n';
-      content += `1. Query all projects for active runs\n`;
-      content += `2. Filter by RUNNING${includePending ? ' and PENDING' : ''} status\n`;
-      content += `3. Show real-time status updates\n`;
-      
-      if (showProgress) {
-        content += `4. Display progress information where available\n`;
+
+      content += '\n';
+
+      if (rows.length === 0) {
+        content += includePending ? 'No running or pending runs.' : 'No running runs.';
       }
-      
-      content += `5. Provide run duration and estimated completion\n`;
-      content += `6. Allow quick access to cancel operations\n\n`;
-      content += `**Sample Active Runs:**\n`;
-      content += `⏳ **RUNNING** - Sales Dashboard (abc123)\n`;
-      content += `   Started: 5 minutes ago\n`;
-      content += `   Triggered by: analyst@company.com\n`;
-      
-      if (includePending) {
-        content += `⏱️ **PENDING** - Daily Report (def456)\n`;
-        content += `   Queued: 2 minutes ago\n`;
-        content += `   Triggered by: scheduler\n`;
+
+      rows.forEach(({ run, elapsed, typical, stuck }) => {
+        const name = projectNames.get(run.projectId) || run.projectId;
+
+        content += `${stuck ? '⚠️' : statusEmoji(run.status)} **${run.status}** - ${name} (${run.projectId})\n`;
+        content += `   Run ID: ${run.runId}\n`;
+        content += `   ${run.status === 'PENDING' ? 'Queued' : 'Running'} for: ${formatDuration(elapsed)}\n`;
+        content += `   Triggered by: ${run.triggeredBy?.name || 'unknown'}${run.triggeredBy?.email ? ` (${run.triggeredBy.email})` : ''}\n`;
+
+        if (typical === undefined) {
+          content += `   ETA: unknown (no successful run history)\n`;
+        } else if (run.status === 'PENDING') {
+          content += `   ETA: ~${formatDuration(typical)} once started\n`;
+        } else if (elapsed < typical) {
+          content += `   ETA: ~${formatDuration(typical - elapsed)} remaining\n`;
+        } else {
+          content += `   ETA: overdue by ${formatDuration(elapsed - typical)}\n`;
+        }
+
+        if (showProgress && typical !== undefined) {
+          const ratio = run.status === 'PENDING' ? 0 : elapsed / typical;
+          const filled = Math.min(10, Math.floor(ratio * 10));
+          content += `   Progress: [${'█'.repeat(filled)}${'░'.repeat(10 - filled)}] ~${Math.round(ratio * 100)}% of typical ${formatDuration(typical)}\n`;
+        }
+
+        if (showProgress && run.inputParams) {
+          content += `   Input Params: ${JSON.stringify(run.inputParams)}\n`;
+        }
+
+        if (stuck) {
+          content += `   ⚠️ Likely stuck: running more than ${stuckMultiplier}x its typical duration. `;
+          content += `Use \`hex_cancel_run\` with project_id="${run.projectId}" and run_id="${run.runId}" to stop it.\n`;
+        }
+
+        content += '\n';
+      });
+
+      if (projectsSkipped > 0) {
+        content += `\n*${projectsSkipped} less recently updated project(s) were not checked. `;
+        content += `Pass project_ids, or raise max_projects (up to ${MAX_MONITOR_MAX_PROJECTS}), to check them.*\n`;
+      }
+
+      if (fetchErrors.length > 0) {
+        content += `\n**Warning:** Active runs could not be fetched for ${fetchErrors.length} project(s):\n`;
+        fetchErrors.forEach(error => {
+          content += `- ${error}\n`;
+        });
       }
 
-      return {
-        content: [{ type: 'text', text: content }],
-      };
+      return toolResult(args, content, {
+        checkedAt: new Date(now).toISOString(),
+        projectsChecked: projectNames.size,
+        projectsSkipped,
+        activeRuns: rows.map(({ run, elapsed, typical, stuck }) => ({
+          run,
+          elapsedMs: elapsed,
+          ...(typical !== undefined && { typicalDurationMs: typical }),
+          stuck,
+        })),
+        fetchErrors,
+      });
     } catch (error) {
       logger.error('Error monitoring active runs:', error);
       throw error;
     }
   }
+}
 
-  private async scheduleProjectRun(args: Record<string, unknown>): Promise<CallToolResult> {
-    try {
-      const projectId = args.project_id;
-      if (typeof projectId !== 'string') {
-        throw new Error('project_id must be a string');
-      }
+function summarizeRuns(runs: HexProjectRun[]): RunSummary {
+  const statusCounts: Record<string, number> = {};
+  runs.forEach(run => {
+    statusCounts[run.status] = (statusCounts[run.status] || 0) + 1;
+  });
 
-      const scheduleType = (args.schedule_type as string) || 'once';
-      const scheduledTime = args.scheduled_time as string;
-      const timezone = (args.timezone as string) || 'UTC';
-      const inputParams = args.input_params;
-      const notificationConfig = args.notification_config;
+  const finished = runs.filter(run => isTerminalRunStatus(run.status));
+  const durations = finished
+    .map(run => getRunDurationMs(run))
+    .filter((duration): duration is number => duration !== undefined);
 
-      if (!scheduledTime) {
-        throw new Error('scheduled_time is required');
-      }
+  const summary: RunSummary = { total: runs.length, statusCounts };
 
-      let content = `**Project Run Scheduled**\n\n`;
-      content += `**Project ID:** ${projectId}\n`;
-      content += `**Schedule Type:** ${scheduleType}\n`;
-      content += `**Scheduled Time:** ${scheduledTime}\n`;
-      content += `**Timezone:** ${timezone}\n`;
-      
-      if (inputParams) {
-        content += `**Input Parameters:** Provided\n`;
-      }
-      
-      if (notificationConfig) {
-        content += `**Notifications:** Configured\n`;
-      }
-      
-      content += '\n**Note:** This is a simulated scheduling function. In a full implementation, this would:\n';
-      content += `1. Create a scheduled job in the system\n`;
-      content += `2. Validate the schedule parameters\n`;
-      content += `3. Set up recurring execution if applicable\n`;
-      content += `4. Configure notifications for completion\n`;
-      content += `5. Return a schedule ID for management\n\n`;
-      
-      if (scheduleType === 'once') {
-        content += `The project will run once at the specified time.\n`;
-      } else {
-        content += `The project will run ${scheduleType} starting from the specified time.\n`;
+  if (finished.length > 0) {
+    summary.successRate = (statusCounts.SUCCESS || 0) / finished.length;
+  }
+
+  const p50 = percentile(durations, 50);
+  const p95 = percentile(durations, 95);
+  if (p50 !== undefined) summary.p50 = p50;
+  if (p95 !== undefined) summary.p95 = p95;
+  if (durations.length > 0) summary.max = Math.max(...durations);
+
+  return summary;
+}
+
+function groupKey(run: HexProjectRun, groupBy: AnalyticsGroupBy, projectNames: Map<string, string>): string {
+  const started = new Date(run.startedAt);
+
+  switch (groupBy) {
+    case 'day':
+      return started.toISOString().slice(0, 10);
+    case 'week': {
+      // Weeks start on Monday (UTC)
+      const weekStart = new Date(started);
+      weekStart.setUTCDate(started.getUTCDate() - ((started.getUTCDay() + 6) % 7));
+      return `week of ${weekStart.toISOString().slice(0, 10)}`;
+    }
+    case 'month':
+      return started.toISOString().slice(0, 7);
+    case 'project':
+      return projectNames.get(run.projectId) || run.projectId;
+    case 'user':
+      return run.triggeredBy?.email || run.triggeredBy?.name || 'unknown';
+  }
+}
+
+/**
+ * Compares each project's median runtime in the first and second half of the
+ * window, ordered so the projects slowing down the most come first.
+ */
+function runtimeTrends(runs: HexProjectRun[], since: Date, projectNames: Map<string, string>): RuntimeTrend[] {
+  const midpoint = since.getTime() + (Date.now() - since.getTime()) / 2;
+  const byProject = new Map<string, { before: number[]; after: number[] }>();
+
+  runs
+    .filter(run => run.status === 'SUCCESS')
+    .forEach(run => {
+      const duration = getRunDurationMs(run);
+      if (duration === undefined) {
+        return;
       }
-      
-      content += `Use project execution tools to monitor the scheduled runs when they occur.`;
 
-      return {
-        content: [{ type: 'text', text: content }],
-      };
-    } catch (error) {
-      logger.error('Error scheduling project run:', error);
-      throw error;
+      const bucket = byProject.get(run.projectId) || { before: [], after: [] };
+      (new Date(run.startedAt).getTime() < midpoint ? bucket.before : bucket.after).push(duration);
+      byProject.set(run.projectId, bucket);
+    });
+
+  const trends: RuntimeTrend[] = [];
+  byProject.forEach((bucket, projectId) => {
+    const before = median(bucket.before);
+    const after = median(bucket.after);
+    if (before === undefined || after === undefined || before === 0) {
+      return;
+    }
+
+    trends.push({
+      name: projectNames.get(projectId) || projectId,
+      before,
+      after,
+      change: (after - before) / before,
+    });
+  });
+
+  return trends.sort((a, b) => b.change - a.change);
+}
+
+function formatRate(rate: number | undefined): string {
+  return rate === undefined ? '-' : `${(rate * 100).toFixed(1)}%`;
+}
+
+function formatStat(ms: number | undefined): string {
+  return ms === undefined ? '-' : formatDuration(ms);
+}
+
+/** Run request for `projectId` with the run options shared by the run tools (`use_cached_sql_results` etc.). */
+function buildRunRequest(
+  projectId: string,
+  inputParams: Record<string, unknown> | undefined,
+  args: Record<string, unknown>
+): HexRunProjectRequest {
+  const request: HexRunProjectRequest = {
+    projectId,
+  };
+
+  if (inputParams) {
+    request.inputParams = inputParams;
+  }
+
+  if (typeof args.update_published_results === 'boolean') {
+    request.updatePublishedResults = args.update_published_results;
+  }
+
+  if (typeof args.use_cached_sql_results === 'boolean') {
+    request.useCachedSqlResults = args.use_cached_sql_results;
+  }
+
+  if (args.notification_config && typeof args.notification_config === 'object') {
+    request.notificationConfig = args.notification_config as NonNullable<HexRunProjectRequest['notificationConfig']>;
+  }
+
+  return request;
+}
+
+/** Every combination of the swept values, varying the last parameter fastest. */
+function cartesianProduct(values: Record<string, unknown[]>): Record<string, unknown>[] {
+  return Object.entries(values).reduce<Record<string, unknown>[]>(
+    (combinations, [name, options]) => combinations.flatMap(combination =>
+      options.map(option => ({ ...combination, [name]: option }))
+    ),
+    [{}]
+  );
+}
+
+/** Reads a dot-separated path such as `metrics.revenue` from a run's output parameters. */
+function getOutputField(outputs: Record<string, unknown> | undefined, field: string): unknown {
+  return field.split('.').reduce<unknown>(
+    (value, key) => value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined,
+    outputs
+  );
+}
+
+function diffInputParams(before: Record<string, unknown>, after: Record<string, unknown>): InputParamChange[] {
+  return Object.entries(after).map(([name, value]) => {
+    if (!(name in before)) {
+      return { name, change: 'added' as const, after: value };
     }
+    const change = JSON.stringify(before[name]) === JSON.stringify(value) ? 'unchanged' as const : 'changed' as const;
+    return { name, change, before: before[name], after: value };
+  });
+}
+
+/** Changed and added parameters first, so the interesting rows lead the table. */
+function formatInputParamChanges(changes: InputParamChange[]): string {
+  const order = { changed: 0, added: 1, unchanged: 2 };
+  const format = (value: unknown) => value === undefined ? '-' : JSON.stringify(value);
+  return markdownTable(
+    ['Parameter', 'Previous', 'New', 'Change'],
+    [...changes]
+      .sort((a, b) => order[a.change] - order[b.change] || a.name.localeCompare(b.name))
+      .map(change => [change.name, format(change.before), format(change.after), change.change])
+  );
+}
+
+function formatPercentChange(percentChange: number | undefined): string {
+  return percentChange === undefined ? '' : ` (${percentChange >= 0 ? '+' : ''}${percentChange.toFixed(1)}%)`;
+}
+
+function formatDurationChange(change: NumericChange): string {
+  const direction = change.delta >= 0 ? 'longer' : 'shorter';
+  return `${formatDuration(Math.abs(change.delta))} ${direction}${formatPercentChange(change.percentChange)}`;
+}
+
+function formatDifferences(differences: ValueDifference[], maxDifferences: number): string {
+  if (differences.length === 0) {
+    return 'No differences.\n';
+  }
+
+  const format = (value: unknown) => value === undefined ? '-' : JSON.stringify(value);
+  let content = markdownTable(
+    ['Path', 'Baseline', 'Compared', 'Change'],
+    differences.slice(0, maxDifferences).map(difference => [
+      difference.path || '(value)',
+      format(difference.before),
+      format(difference.after),
+      difference.delta !== undefined
+        ? `${difference.delta >= 0 ? '+' : ''}${Number(difference.delta.toPrecision(12))}${formatPercentChange(difference.percentChange)}`
+        : difference.kind,
+    ])
+  );
+
+  if (differences.length > maxDifferences) {
+    content += `\n*${differences.length - maxDifferences} more difference(s) not shown; use output_format="json" to get all of them.*\n`;
+  }
+
+  return content;
+}
+
+function formatInputWarnings(warnings: string[]): string {
+  if (warnings.length === 0) {
+    return '';
   }
-}
\ No newline at end of file
+  return `⚠️ **Input Warnings:**\n${warnings.map(warning => `- ${warning}`).join('\n')}\n\n`;
+}
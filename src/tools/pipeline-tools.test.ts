@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { HexAuth } from '../auth/hex-auth.js';
+import { PipelineStore } from '../pipeline/pipeline-store.js';
+import { ConfirmationTokens } from '../utils/dry-run.js';
+import { HexPipelineTools } from './pipeline-tools.js';
+
+const STEPS = [
+  { id: 'ingest', project_id: 'p1' },
+  { id: 'report', project_id: 'p2', depends_on: ['ingest'] },
+];
+
+function fakeAuth(knownProjects: string[] = ['p1', 'p2']) {
+  const makeRequest = jest.fn(async (endpoint: string, options: { method: string }) => {
+    if (options.method === 'POST') {
+      return { runId: 'r1' };
+    }
+    const projectId = endpoint.split('/')[2] as string;
+    return knownProjects.includes(projectId)
+      ? { projectId, name: `Project ${projectId}`, status: 'Published' }
+      : { error: { message: `Project ${projectId} not found` } };
+  });
+  const auth = {
+    isApiError: (response: unknown) => typeof response === 'object' && response !== null && 'error' in response,
+    makeRequest,
+  } as unknown as HexAuth;
+  return { auth, makeRequest };
+}
+
+function createTools(auth: HexAuth): HexPipelineTools {
+  return new HexPipelineTools(auth, {} as PipelineStore, new ConfirmationTokens(true));
+}
+
+describe('HexPipelineTools confirmation', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('refuses to run a pipeline without a confirm token when confirmation is required', async () => {
+    const { auth, makeRequest } = fakeAuth();
+
+    await expect(createTools(auth).callTool('hex_run_pipeline', { steps: STEPS }))
+      .rejects.toThrow(/requires confirmation/);
+    expect(makeRequest).not.toHaveBeenCalled();
+  });
+
+  it('issues a token from a dry run that only confirms the same steps', async () => {
+    const { auth, makeRequest } = fakeAuth();
+    const tools = createTools(auth);
+
+    const preview = await tools.callTool('hex_run_pipeline', { steps: STEPS, dry_run: true, output_format: 'json' });
+    const data = preview.structuredContent as { dryRun: boolean; confirmToken: string };
+
+    expect(data.dryRun).toBe(true);
+    expect(typeof data.confirmToken).toBe('string');
+    expect(makeRequest.mock.calls.every(([, options]) => options.method === 'GET')).toBe(true);
+
+    const changed = [STEPS[0], { ...STEPS[1], project_id: 'p1' }];
+    await expect(tools.callTool('hex_run_pipeline', { steps: changed, confirm_token: data.confirmToken }))
+      .rejects.toThrow(/different request/);
+  });
+
+  it('withholds the token when a step\'s project does not resolve', async () => {
+    const { auth } = fakeAuth(['p1']);
+
+    const preview = await createTools(auth).callTool('hex_run_pipeline', { steps: STEPS, dry_run: true, output_format: 'json' });
+
+    expect(preview.structuredContent).not.toHaveProperty('confirmToken');
+    expect(preview.structuredContent).toMatchObject({
+      steps: [{ id: 'ingest', projectName: 'Project p1' }, { id: 'report', projectName: null, error: 'Project p2 not found' }],
+    });
+  });
+});
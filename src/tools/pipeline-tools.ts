@@ -0,0 +1,477 @@
+import { Tool, CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { HexAuth } from '../auth/hex-auth.js';
+import { runPipeline, stepDependencies, validatePipeline } from '../pipeline/pipeline-runner.js';
+import { PipelineStore } from '../pipeline/pipeline-store.js';
+import { HexPipeline, HexPipelineStep, ToolCallContext } from '../types/index.js';
+import { ConfirmationTokens, DRY_RUN_PROPERTIES } from '../utils/dry-run.js';
+import { formatDuration } from '../utils/format.js';
+import { getProject } from '../utils/hex-api.js';
+import { logger } from '../utils/logger.js';
+import { toolResult } from '../utils/output.js';
+import { formatDate, getRenderOptions, markdownTable, statusEmoji } from '../utils/render.js';
+
+const STEP_SCHEMA = {
+  type: 'object',
+  properties: {
+    id: {
+      type: 'string',
+      description: 'Unique step name, used by depends_on and input_mappings (no dots)',
+    },
+    project_id: {
+      type: 'string',
+      description: 'The project this step runs',
+    },
+    input_params: {
+      type: 'object',
+      description: 'Fixed input parameters for this step',
+    },
+    depends_on: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Steps that must succeed before this one starts',
+    },
+    input_mappings: {
+      type: 'object',
+      description: 'Input parameter name -> "<step_id>.<output_key>" of an upstream run\'s output parameters, e.g. {"table_name": "ingest.output_table"}. Mapped steps are implied dependencies',
+      additionalProperties: { type: 'string' },
+    },
+    on_failure: {
+      type: 'string',
+      enum: ['stop', 'continue'],
+      description: 'If this step fails: "stop" starts no further steps; "continue" only skips the steps that depend on it',
+      default: 'stop',
+    },
+    use_cached_sql_results: {
+      type: 'boolean',
+      description: 'Whether to use cached SQL query results',
+    },
+  },
+  required: ['id', 'project_id'],
+};
+
+export class HexPipelineTools {
+  constructor(private auth: HexAuth, private store: PipelineStore, private confirmations: ConfirmationTokens) {}
+
+  getToolDefinitions(): Tool[] {
+    return [
+      {
+        name: 'hex_run_pipeline',
+        description: 'Run a pipeline of projects in dependency order, passing output parameters of upstream runs into the inputs of downstream runs. Runs independent steps in parallel and waits for all of them.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              description: 'Name of a saved pipeline to run (instead of steps)',
+            },
+            steps: {
+              type: 'array',
+              items: STEP_SCHEMA,
+              description: 'Pipeline steps to run (instead of name)',
+            },
+            save_as: {
+              type: 'string',
+              description: 'Also save the given steps under this name so they can be rerun with name',
+            },
+            description: {
+              type: 'string',
+              description: 'Description stored with the pipeline when save_as is given',
+            },
+            max_concurrent: {
+              type: 'number',
+              description: 'Maximum number of steps running at once',
+              minimum: 1,
+              maximum: 10,
+              default: 3,
+            },
+            max_wait_seconds: {
+              type: 'number',
+              description: 'Maximum time to wait for each step\'s run; a step still running after this counts as failed',
+              minimum: 1,
+              default: 600,
+            },
+            ...DRY_RUN_PROPERTIES,
+          },
+        },
+      },
+      {
+        name: 'hex_save_pipeline',
+        description: 'Save a pipeline definition to the local pipeline file without running it. Replaces a saved pipeline with the same name.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              description: 'Name to save the pipeline under',
+            },
+            description: {
+              type: 'string',
+              description: 'What the pipeline does',
+            },
+            steps: {
+              type: 'array',
+              items: STEP_SCHEMA,
+              description: 'Pipeline steps',
+            },
+          },
+          required: ['name', 'steps'],
+        },
+      },
+      {
+        name: 'hex_list_pipelines',
+        description: 'List saved pipelines with their steps and dependencies',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+      {
+        name: 'hex_delete_pipeline',
+        description: 'Delete a saved pipeline',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              description: 'Name of the pipeline to delete',
+            },
+          },
+          required: ['name'],
+        },
+      },
+    ];
+  }
+
+  canHandleTool(name: string): boolean {
+    return ['hex_run_pipeline', 'hex_save_pipeline', 'hex_list_pipelines', 'hex_delete_pipeline'].includes(name);
+  }
+
+  async callTool(
+    name: string,
+    args: Record<string, unknown>,
+    context: ToolCallContext = {}
+  ): Promise<CallToolResult> {
+    switch (name) {
+      case 'hex_run_pipeline':
+        return this.runPipeline(args, context);
+      case 'hex_save_pipeline':
+        return this.savePipeline(args);
+      case 'hex_list_pipelines':
+        return this.listPipelines(args);
+      case 'hex_delete_pipeline':
+        return this.deletePipeline(args);
+      default:
+        throw new Error(`Unknown tool: ${name}`);
+    }
+  }
+
+  private async runPipeline(args: Record<string, unknown>, context: ToolCallContext): Promise<CallToolResult> {
+    try {
+      if ((args.name === undefined) === (args.steps === undefined)) {
+        throw new Error('Provide either name (a saved pipeline) or steps');
+      }
+
+      let name: string | undefined;
+      let steps: HexPipelineStep[];
+
+      if (args.name !== undefined) {
+        if (typeof args.name !== 'string') {
+          throw new Error('name must be a string');
+        }
+        const pipeline = await this.store.get(args.name);
+        name = pipeline.name;
+        steps = pipeline.steps;
+      } else {
+        steps = parseSteps(args.steps);
+      }
+
+      const ordered = validatePipeline(steps);
+      const maxConcurrent = typeof args.max_concurrent === 'number'
+        ? Math.min(10, Math.max(1, Math.floor(args.max_concurrent)))
+        : 3;
+
+      if (args.dry_run === true) {
+        return this.previewPipeline(name, ordered, args, maxConcurrent);
+      }
+
+      this.confirmations.redeem(args.confirm_token, 'pipeline', ordered);
+
+      if (args.steps !== undefined && typeof args.save_as === 'string' && args.save_as !== '') {
+        await this.store.save({
+          name: args.save_as,
+          ...(typeof args.description === 'string' && { description: args.description }),
+          steps,
+        });
+        name = args.save_as;
+        logger.info(`Saved pipeline ${name} to ${this.store.getPath()}`);
+      }
+
+      const maxWaitSeconds = typeof args.max_wait_seconds === 'number' ? args.max_wait_seconds : 600;
+
+      logger.info(`Running pipeline ${name ?? '(unsaved)'}`, { steps: steps.length, maxConcurrent });
+
+      const startedAt = Date.now();
+      let finished = 0;
+
+      const results = await runPipeline(this.auth, steps, {
+        maxConcurrent,
+        stepTimeoutMs: maxWaitSeconds * 1000,
+        ...(context.signal && { signal: context.signal }),
+        onStepFinished: (result) => {
+          finished++;
+          context.sendProgress?.(finished, steps.length, `Step ${result.stepId}: ${result.status}`)
+            .catch(error => logger.debug('Failed to send progress notification:', error));
+        },
+      });
+
+      const counts = results.reduce<Record<string, number>>((acc, result) => {
+        acc[result.status] = (acc[result.status] || 0) + 1;
+        return acc;
+      }, {});
+      const succeeded = results.every(result => result.status === 'SUCCESS');
+      const stepsById = new Map(steps.map(step => [step.id, step]));
+
+      let content = `**Pipeline ${succeeded ? 'Completed' : 'Finished With Failures'}**\n\n`;
+      if (name) {
+        content += `**Pipeline:** ${name}\n`;
+      }
+      content += `**Steps:** ${steps.length}\n`;
+      content += `**Max Concurrent:** ${maxConcurrent}\n`;
+      content += `**Total Time:** ${formatDuration(Date.now() - startedAt)}\n`;
+      content += `**Outcome:** ${Object.entries(counts).map(([status, count]) => `${count} ${status}`).join(', ')}\n\n`;
+
+      content += markdownTable(
+        ['#', 'Step', 'Project', 'Depends On', 'Status', 'Run ID', 'Duration', 'Error'],
+        results.map((result, index) => [
+          index + 1,
+          result.stepId,
+          result.projectId,
+          stepDependencies(stepsById.get(result.stepId) as HexPipelineStep).join(', '),
+          `${statusEmoji(result.status)} ${result.status}`,
+          result.runId ?? '-',
+          result.durationMs !== undefined ? formatDuration(result.durationMs) : '-',
+          result.error ?? '',
+        ])
+      );
+
+      if (getRenderOptions(args).mode === 'verbose') {
+        const mapped = results.filter(result => result.inputParams && stepsById.get(result.stepId)?.inputMappings);
+        if (mapped.length > 0) {
+          content += `\n**Mapped Inputs:**\n`;
+          mapped.forEach(result => {
+            const mappings = stepsById.get(result.stepId)?.inputMappings || {};
+            Object.entries(mappings).forEach(([input, reference]) => {
+              content += `- ${result.stepId}.${input} = ${JSON.stringify(result.inputParams?.[input])} (from ${reference})\n`;
+            });
+          });
+        }
+      }
+
+      return toolResult(args, content, {
+        ...(name && { name }),
+        succeeded,
+        totalTimeMs: Date.now() - startedAt,
+        counts,
+        steps: results,
+      });
+    } catch (error) {
+      logger.error('Error running pipeline:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Previews a pipeline run without starting anything: checks that every
+   * step's project exists and lists the steps in the order they would start.
+   * A confirm token is only issued when every project resolves.
+   */
+  private async previewPipeline(
+    name: string | undefined,
+    ordered: HexPipelineStep[],
+    args: Record<string, unknown>,
+    maxConcurrent: number
+  ): Promise<CallToolResult> {
+    const projectIds = [...new Set(ordered.map(step => step.projectId))];
+    const projects = new Map(await Promise.all(projectIds.map(async (projectId): Promise<[string, { name?: string; error?: string }]> => {
+      try {
+        const project = await getProject(this.auth, projectId);
+        return [projectId, { name: project.name }];
+      } catch (error) {
+        return [projectId, { error: error instanceof Error ? error.message : 'Unknown error' }];
+      }
+    })));
+    const unresolved = projectIds.filter(projectId => projects.get(projectId)?.error !== undefined);
+
+    let content = `**Dry Run: Pipeline Not Started**\n\n`;
+    if (name) {
+      content += `**Pipeline:** ${name}\n`;
+    }
+    content += `**Steps:** ${ordered.map(step => step.id).join(' → ')}\n`;
+    content += `**Max Concurrent:** ${maxConcurrent}\n\n`;
+
+    content += markdownTable(
+      ['#', 'Step', 'Project', 'Name', 'Depends On', 'Notes'],
+      ordered.map((step, index) => [
+        index + 1,
+        step.id,
+        step.projectId,
+        projects.get(step.projectId)?.name ?? '-',
+        stepDependencies(step).join(', '),
+        projects.get(step.projectId)?.error ?? '',
+      ])
+    );
+
+    const data: Record<string, unknown> = {
+      dryRun: true,
+      ...(name && { name }),
+      steps: ordered.map(step => ({
+        ...step,
+        projectName: projects.get(step.projectId)?.name ?? null,
+        ...(projects.get(step.projectId)?.error && { error: projects.get(step.projectId)?.error }),
+      })),
+    };
+
+    if (unresolved.length > 0) {
+      content += `\n*Fix the ${unresolved.length} project${unresolved.length !== 1 ? 's' : ''} that could not be resolved before running; no confirm token was issued.*`;
+      return toolResult(args, content, data);
+    }
+
+    const confirmation = this.confirmations.issue('pipeline', ordered);
+    content += `\n*To start this pipeline, call again with the same arguments without dry_run and with confirm_token="${confirmation.token}" `;
+    content += `(valid until ${formatDate(confirmation.expiresAt, getRenderOptions(args))}).*`;
+
+    return toolResult(args, content, {
+      ...data,
+      confirmToken: confirmation.token,
+      confirmTokenExpiresAt: confirmation.expiresAt,
+    });
+  }
+
+  private async savePipeline(args: Record<string, unknown>): Promise<CallToolResult> {
+    try {
+      if (typeof args.name !== 'string' || args.name === '') {
+        throw new Error('name must be a non-empty string');
+      }
+
+      const steps = parseSteps(args.steps);
+      const ordered = validatePipeline(steps);
+      const pipeline = await this.store.save({
+        name: args.name,
+        ...(typeof args.description === 'string' && { description: args.description }),
+        steps,
+      });
+
+      logger.info(`Saved pipeline ${pipeline.name} to ${this.store.getPath()}`);
+
+      let content = `**Pipeline Saved**\n\n`;
+      content += `**Name:** ${pipeline.name}\n`;
+      content += `**Steps:** ${ordered.map(step => step.id).join(' → ')}\n`;
+      content += `**File:** ${this.store.getPath()}\n\n`;
+      content += `*Run it with \`hex_run_pipeline\` using name="${pipeline.name}".*`;
+
+      return toolResult(args, content, pipeline);
+    } catch (error) {
+      logger.error('Error saving pipeline:', error);
+      throw error;
+    }
+  }
+
+  private async listPipelines(args: Record<string, unknown>): Promise<CallToolResult> {
+    try {
+      const pipelines = (await this.store.list()).sort((a, b) => a.name.localeCompare(b.name));
+      const options = getRenderOptions(args);
+
+      if (pipelines.length === 0) {
+        return toolResult(args, 'No saved pipelines. Save one with `hex_save_pipeline` or `hex_run_pipeline` with save_as.', { pipelines });
+      }
+
+      let content = `**Saved Pipelines (${pipelines.length})**\n\n`;
+
+      if (options.mode === 'compact') {
+        content += markdownTable(
+          ['Name', 'Steps', 'Updated', 'Description'],
+          pipelines.map(pipeline => [
+            pipeline.name,
+            pipeline.steps.map(step => step.id).join(' → '),
+            formatDate(pipeline.updatedAt, options),
+            pipeline.description ?? '',
+          ])
+        );
+      } else {
+        pipelines.forEach(pipeline => {
+          content += formatPipeline(pipeline, options);
+        });
+      }
+
+      return toolResult(args, content, { pipelines });
+    } catch (error) {
+      logger.error('Error listing pipelines:', error);
+      throw error;
+    }
+  }
+
+  private async deletePipeline(args: Record<string, unknown>): Promise<CallToolResult> {
+    try {
+      if (typeof args.name !== 'string') {
+        throw new Error('name must be a string');
+      }
+
+      await this.store.delete(args.name);
+      logger.info(`Deleted pipeline ${args.name}`);
+
+      return toolResult(args, `**Pipeline Deleted**\n\nRemoved pipeline "${args.name}".`, { name: args.name, deleted: true });
+    } catch (error) {
+      logger.error('Error deleting pipeline:', error);
+      throw error;
+    }
+  }
+}
+
+/** Converts the snake_case step arguments of the tools into stored pipeline steps. */
+function parseSteps(value: unknown): HexPipelineStep[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error('steps must be a non-empty array');
+  }
+
+  return value.map((raw, index) => {
+    if (!raw || typeof raw !== 'object') {
+      throw new Error(`steps[${index}] must be an object`);
+    }
+    const step = raw as Record<string, unknown>;
+    if (step.on_failure !== undefined && step.on_failure !== 'stop' && step.on_failure !== 'continue') {
+      throw new Error(`steps[${index}].on_failure must be "stop" or "continue"`);
+    }
+    if (step.depends_on !== undefined && !(Array.isArray(step.depends_on) && step.depends_on.every(id => typeof id === 'string'))) {
+      throw new Error(`steps[${index}].depends_on must be an array of step ids`);
+    }
+
+    return {
+      id: step.id as string,
+      projectId: step.project_id as string,
+      ...(typeof step.input_params === 'object' && step.input_params !== null && { inputParams: step.input_params as Record<string, unknown> }),
+      ...(Array.isArray(step.depends_on) && { dependsOn: step.depends_on as string[] }),
+      ...(typeof step.input_mappings === 'object' && step.input_mappings !== null && { inputMappings: step.input_mappings as Record<string, string> }),
+      ...((step.on_failure === 'stop' || step.on_failure === 'continue') && { onFailure: step.on_failure }),
+      ...(typeof step.use_cached_sql_results === 'boolean' && { useCachedSqlResults: step.use_cached_sql_results }),
+    };
+  });
+}
+
+function formatPipeline(pipeline: HexPipeline, options: ReturnType<typeof getRenderOptions>): string {
+  let content = `**${pipeline.name}**\n`;
+  if (pipeline.description) {
+    content += `${pipeline.description}\n`;
+  }
+  pipeline.steps.forEach(step => {
+    const dependencies = stepDependencies(step);
+    content += `- \`${step.id}\`: ${step.projectId}`;
+    content += dependencies.length > 0 ? ` (after ${dependencies.join(', ')})` : '';
+    content += step.onFailure === 'continue' ? ', continues on failure' : '';
+    content += '\n';
+    Object.entries(step.inputMappings || {}).forEach(([input, reference]) => {
+      content += `  - ${input} ← ${reference}\n`;
+    });
+  });
+  content += `Updated: ${formatDate(pipeline.updatedAt, options)}\n\n`;
+  return content;
+}
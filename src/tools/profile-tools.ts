@@ -0,0 +1,71 @@
+import { Tool, CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { ProfileRegistry } from '../auth/profiles.js';
+import { toolResult } from '../utils/output.js';
+import { getRenderOptions, markdownTable } from '../utils/render.js';
+
+export class HexProfileTools {
+  constructor(private profiles: ProfileRegistry) {}
+
+  getToolDefinitions(): Tool[] {
+    return [
+      {
+        name: 'hex_list_profiles',
+        description: 'List the Hex workspace profiles this server can use, with their base URL and default tool arguments. Pass a profile name as `profile` to any tool.',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+    ];
+  }
+
+  canHandleTool(name: string): boolean {
+    return name === 'hex_list_profiles';
+  }
+
+  async callTool(name: string, args: Record<string, unknown>): Promise<CallToolResult> {
+    switch (name) {
+      case 'hex_list_profiles':
+        return this.listProfiles(args);
+      default:
+        throw new Error(`Unknown tool: ${name}`);
+    }
+  }
+
+  private async listProfiles(args: Record<string, unknown>): Promise<CallToolResult> {
+    const profiles = this.profiles.list();
+
+    let content = `**Hex Profiles (${profiles.length})**\n\n`;
+
+    if (getRenderOptions(args).mode === 'compact') {
+      content += markdownTable(
+        ['Profile', 'Base URL', 'Token', 'Default', 'Description'],
+        profiles.map(profile => [
+          profile.name,
+          profile.baseUrl,
+          profile.tokenSource,
+          profile.isDefault ? 'yes' : '',
+          profile.description ?? '',
+        ])
+      );
+    } else {
+      profiles.forEach(profile => {
+        content += `**${profile.name}**${profile.isDefault ? ' (default)' : ''}\n`;
+        if (profile.description) {
+          content += `${profile.description}\n`;
+        }
+        content += `- Base URL: ${profile.baseUrl}\n`;
+        content += `- Token: from ${profile.tokenSource}\n`;
+        content += `- Connected: ${profile.connected ? 'yes' : 'not yet used'}\n`;
+        if (Object.keys(profile.defaults).length > 0) {
+          content += `- Default arguments: \`${JSON.stringify(profile.defaults)}\`\n`;
+        }
+        content += '\n';
+      });
+    }
+
+    content += `*Calls without a \`profile\` argument use "${this.profiles.defaultProfile}".*`;
+
+    return toolResult(args, content, { defaultProfile: this.profiles.defaultProfile, profiles });
+  }
+}
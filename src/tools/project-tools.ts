@@ -1,16 +1,91 @@
 import { Tool, CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createHash } from 'node:crypto';
 import { HexAuth } from '../auth/hex-auth.js';
 import { 
   HexProject, 
   HexProjectListResponse, 
   HexPaginationOptions,
   HexPresignedUrlRequest,
-  HexPresignedUrlResponse
+  HexPresignedUrlResponse,
+  HexProjectRun,
+  HexRunProjectRequest,
+  ToolCallContext
 } from '../types/index.js';
+import {
+  BatchRunResult,
+  batchRunCells,
+  countByStatus,
+  executeBatchRun,
+  renderBatchNotes,
+  renderBatchSummary
+} from '../utils/batch-run.js';
+import { runWithConcurrency } from '../utils/concurrency.js';
+import { config } from '../utils/config.js';
+import {
+  ConfirmationTokens,
+  DRY_RUN_PROPERTIES,
+  DurationEstimate,
+  estimateMakespan,
+  estimateRunDuration,
+  formatDurationEstimate
+} from '../utils/dry-run.js';
+import { ExportFormat, exportTables, outputParamsToTables } from '../utils/export.js';
+import { formatDuration } from '../utils/format.js';
+import {
+  getAllProjects,
+  getProject,
+  getRun,
+  getRunDurationMs,
+  getRunHistory,
+  isTerminalRunStatus
+} from '../utils/hex-api.js';
+import {
+  checkInputParams,
+  DEFAULT_INPUT_HISTORY_RUNS,
+  getProjectInputParams
+} from '../utils/input-params.js';
 import { logger } from '../utils/logger.js';
+import { toolResult } from '../utils/output.js';
+import {
+  formatDate,
+  getRenderOptions,
+  markdownTable,
+  renderProject,
+  renderProjectList,
+  statusEmoji
+} from '../utils/render.js';
+import { ProjectSearchIndex, SearchField } from '../utils/search.js';
+import { mean, median } from '../utils/stats.js';
+
+const PROJECT_STATUSES: HexProject['status'][] = ['ACTIVE', 'ARCHIVED', 'DRAFT'];
+
+interface BulkRunConfig {
+  project_id: string;
+  input_params?: Record<string, unknown>;
+  use_cached_sql_results?: boolean;
+}
+
+interface ProjectSummary {
+  projectId: string;
+  project?: HexProject;
+  runs?: HexProjectRun[];
+  runsError?: boolean;
+  error?: string;
+}
+
+interface BulkRunPreview {
+  projectId: string;
+  name?: string;
+  request: HexRunProjectRequest;
+  estimatedDuration?: DurationEstimate;
+  inputWarnings: string[];
+  error?: string;
+}
+
+type BulkRunResult = Omit<BatchRunResult, 'outputs'> & { projectId: string };
 
 export class HexProjectTools {
-  constructor(private auth: HexAuth) {}
+  constructor(private auth: HexAuth, private confirmations: ConfirmationTokens) {}
 
   getToolDefinitions(): Tool[] {
     return [
@@ -83,27 +158,73 @@ export class HexProjectTools {
               type: 'object',
               description: 'Input parameters to pass to the project',
             },
+            validate_inputs: {
+              type: 'boolean',
+              description: 'Compare input_params with recent runs and warn about unknown keys, missing commonly-used keys and type mismatches',
+              default: true,
+            },
+          },
+          required: ['project_id'],
+        },
+      },
+      {
+        name: 'hex_get_project_inputs',
+        description: 'List the input parameters a project expects, derived from the inputs its recent runs used, with types, usage frequency and example values',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            project_id: {
+              type: 'string',
+              description: 'The unique identifier of the project',
+            },
+            max_runs: {
+              type: 'number',
+              description: 'Number of recent runs to analyze (1-500)',
+              minimum: 1,
+              maximum: 500,
+              default: DEFAULT_INPUT_HISTORY_RUNS,
+            },
           },
           required: ['project_id'],
         },
       },
       {
         name: 'hex_search_projects',
-        description: 'Search and filter projects by name, description, tags, or author',
+        description: 'Ranked, typo-tolerant search over project names, tags, authors and descriptions, with filters and sort options',
         inputSchema: {
           type: 'object',
           properties: {
             query: {
               type: 'string',
-              description: 'Search query to match against project name, description, or tags',
+              description: 'Search terms. Every term must match a project name, tag, author or description (exactly, as a prefix, or with a small typo); name matches rank highest.',
+            },
+            fuzzy: {
+              type: 'boolean',
+              description: 'Allow typo-tolerant matches',
+              default: true,
+            },
+            sort_by: {
+              type: 'string',
+              enum: ['relevance', 'updated_at', 'created_at', 'name'],
+              description: 'Sort order for results. Relevance falls back to most recently updated when there is no query.',
+              default: 'relevance',
+            },
+            sort_order: {
+              type: 'string',
+              enum: ['asc', 'desc'],
+              description: 'Sort direction for updated_at, created_at and name (default: desc for dates, asc for name)',
             },
             author: {
               type: 'string',
               description: 'Filter by author name or email',
             },
+            not_author: {
+              type: 'string',
+              description: 'Exclude projects whose author name or email contains this value',
+            },
             status: {
               type: 'string',
-              enum: ['DRAFT', 'PUBLISHED', 'ARCHIVED'],
+              enum: PROJECT_STATUSES,
               description: 'Filter by project status',
             },
             visibility: {
@@ -111,15 +232,46 @@ export class HexProjectTools {
               enum: ['PUBLIC', 'PRIVATE', 'WORKSPACE'],
               description: 'Filter by project visibility',
             },
+            workspace: {
+              type: 'string',
+              description: 'Filter by workspace ID or name',
+            },
             tags: {
               type: 'array',
               items: { type: 'string' },
-              description: 'Filter by specific tags (any project with any of these tags)',
+              description: 'Filter by tags (see tags_mode)',
+            },
+            tags_mode: {
+              type: 'string',
+              enum: ['any', 'all'],
+              description: 'Whether projects need any or all of `tags`',
+              default: 'any',
+            },
+            not_tags: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Exclude projects with any of these tags',
             },
             updated_after: {
               type: 'string',
               description: 'Filter projects updated after this date (ISO 8601 format)',
             },
+            updated_before: {
+              type: 'string',
+              description: 'Filter projects updated before this date (ISO 8601 format)',
+            },
+            created_after: {
+              type: 'string',
+              description: 'Filter projects created after this date (ISO 8601 format)',
+            },
+            created_before: {
+              type: 'string',
+              description: 'Filter projects created before this date (ISO 8601 format)',
+            },
+            cursor: {
+              type: 'string',
+              description: 'Cursor from a previous search to fetch the next page of results',
+            },
             limit: {
               type: 'number',
               description: 'Maximum number of projects to return (1-100)',
@@ -132,7 +284,7 @@ export class HexProjectTools {
       },
       {
         name: 'hex_export_project_data',
-        description: 'Generate export URLs or download project results data',
+        description: 'Export a run\'s output parameters to a local CSV, JSON, Parquet or Excel file',
         inputSchema: {
           type: 'object',
           properties: {
@@ -161,7 +313,7 @@ export class HexProjectTools {
       },
       {
         name: 'hex_bulk_run_projects',
-        description: 'Run multiple projects in parallel or sequence for batch analysis',
+        description: 'Run multiple projects in parallel or sequence, wait for them to finish, and report per-project results',
         inputSchema: {
           type: 'object',
           properties: {
@@ -196,6 +348,13 @@ export class HexProjectTools {
               description: 'Stop execution if any project fails (only for sequential mode)',
               default: false,
             },
+            max_wait_seconds: {
+              type: 'number',
+              description: 'Maximum time to wait for each run to finish before reporting its last known status',
+              minimum: 1,
+              default: 600,
+            },
+            ...DRY_RUN_PROPERTIES,
           },
           required: ['project_configs'],
         },
@@ -233,6 +392,7 @@ export class HexProjectTools {
       'hex_list_projects', 
       'hex_get_project', 
       'hex_create_presigned_url',
+      'hex_get_project_inputs',
       'hex_search_projects',
       'hex_export_project_data',
       'hex_bulk_run_projects',
@@ -240,7 +400,11 @@ export class HexProjectTools {
     ].includes(name);
   }
 
-  async callTool(name: string, args: Record<string, unknown>): Promise<CallToolResult> {
+  async callTool(
+    name: string,
+    args: Record<string, unknown>,
+    context: ToolCallContext = {}
+  ): Promise<CallToolResult> {
     switch (name) {
       case 'hex_list_projects':
         return this.listProjects(args);
@@ -248,12 +412,14 @@ export class HexProjectTools {
         return this.getProject(args);
       case 'hex_create_presigned_url':
         return this.createPresignedUrl(args);
+      case 'hex_get_project_inputs':
+        return this.getProjectInputs(args);
       case 'hex_search_projects':
         return this.searchProjects(args);
       case 'hex_export_project_data':
         return this.exportProjectData(args);
       case 'hex_bulk_run_projects':
-        return this.bulkRunProjects(args);
+        return this.bulkRunProjects(args, context);
       case 'hex_get_project_summary':
         return this.getProjectSummary(args);
       default:
@@ -293,34 +459,18 @@ export class HexProjectTools {
       if (projects.length === 0) {
         content += 'No projects found in this workspace.';
       } else {
-        projects.forEach((project, index) => {
-          content += `${index + 1}. **${project.name}** (${project.projectId})\n`;
-          content += `   Status: ${project.status}\n`;
-          content += `   Visibility: ${project.visibility}\n`;
-          content += `   Author: ${project.author.name} (${project.author.email})\n`;
-          content += `   Updated: ${new Date(project.updatedAt).toLocaleString()}\n`;
-          if (project.description) {
-            content += `   Description: ${project.description}\n`;
-          }
-          if (project.tags && project.tags.length > 0) {
-            content += `   Tags: ${project.tags.join(', ')}\n`;
-          }
-          content += '\n';
-        });
+        content += renderProjectList(projects.map(project => ({ project })), getRenderOptions(args));
 
         if (response.hasMore) {
           content += `\n*Note: There are more projects available. Use the 'after' parameter with value '${response.nextCursor}' to get the next page.*`;
         }
       }
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: content,
-          },
-        ],
-      };
+      return toolResult(args, content, {
+        projects,
+        hasMore: response.hasMore,
+        ...(response.nextCursor && { nextCursor: response.nextCursor }),
+      });
     } catch (error) {
       logger.error('Error listing projects:', error);
       throw error;
@@ -344,32 +494,7 @@ export class HexProjectTools {
         throw new Error(response.error.message);
       }
 
-      const project = response;
-      let content = `# ${project.name}\n\n`;
-      content += `**Project ID:** ${project.projectId}\n`;
-      content += `**Status:** ${project.status}\n`;
-      content += `**Visibility:** ${project.visibility}\n`;
-      content += `**Author:** ${project.author.name} (${project.author.email})\n`;
-      content += `**Workspace:** ${project.workspace.name}\n`;
-      content += `**Created:** ${new Date(project.createdAt).toLocaleString()}\n`;
-      content += `**Updated:** ${new Date(project.updatedAt).toLocaleString()}\n`;
-      
-      if (project.description) {
-        content += `\n**Description:**\n${project.description}\n`;
-      }
-      
-      if (project.tags && project.tags.length > 0) {
-        content += `\n**Tags:** ${project.tags.join(', ')}\n`;
-      }
-
-      return {
-        content: [
-          {
-            type: 'text',
-            text: content,
-          },
-        ],
-      };
+      return toolResult(args, renderProject(response, getRenderOptions(args)), response);
     } catch (error) {
       logger.error('Error getting project:', error);
       throw error;
@@ -395,6 +520,10 @@ export class HexProjectTools {
         requestBody.inputParams = args.input_params as Record<string, unknown>;
       }
 
+      const warnings = args.validate_inputs === false || !requestBody.inputParams
+        ? []
+        : (await checkInputParams(this.auth, projectId, requestBody.inputParams)).warnings;
+
       logger.debug('Creating presigned URL for project:', projectId);
 
       const response = await this.auth.makeRequest<HexPresignedUrlResponse>('/presigned-urls', {
@@ -408,7 +537,7 @@ export class HexProjectTools {
 
       const content = `**Presigned URL Created Successfully**\n\n`;
       const urlContent = `**URL:** ${response.url}\n`;
-      const expiresContent = `**Expires:** ${new Date(response.expiresAt).toLocaleString()}\n\n`;
+      const expiresContent = `**Expires:** ${formatDate(response.expiresAt, getRenderOptions(args))}\n\n`;
       const configContent = `**Configuration:**\n`;
       const themeContent = `- Theme: ${requestBody.theme}\n`;
       const headerContent = `- Hide Header: ${requestBody.hideHeader}\n`;
@@ -420,95 +549,118 @@ export class HexProjectTools {
         paramsContent = `- Input Parameters: ${JSON.stringify(requestBody.inputParams, null, 2)}\n`;
       }
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: content + urlContent + expiresContent + configContent + themeContent + headerContent + controlsContent + fullscreenContent + paramsContent,
-          },
-        ],
-      };
+      const warningsContent = warnings.length > 0
+        ? `\n⚠️ **Input Warnings:**\n${warnings.map(warning => `- ${warning}`).join('\n')}\n`
+        : '';
+
+      return toolResult(
+        args,
+        content + urlContent + expiresContent + configContent + themeContent + headerContent + controlsContent + fullscreenContent + paramsContent + warningsContent,
+        { ...response, configuration: requestBody, inputWarnings: warnings }
+      );
     } catch (error) {
       logger.error('Error creating presigned URL:', error);
       throw error;
     }
   }
 
-  private async searchProjects(args: Record<string, unknown>): Promise<CallToolResult> {
+  private async getProjectInputs(args: Record<string, unknown>): Promise<CallToolResult> {
     try {
-      const allProjects = await this.getAllProjects();
-      let filteredProjects = allProjects;
-
-      if (typeof args.query === 'string' && args.query.trim()) {
-        const query = args.query.toLowerCase();
-        filteredProjects = filteredProjects.filter(project => 
-          project.name.toLowerCase().includes(query) ||
-          (project.description && project.description.toLowerCase().includes(query)) ||
-          (project.tags && project.tags.some(tag => tag.toLowerCase().includes(query)))
-        );
+      const projectId = args.project_id;
+      if (typeof projectId !== 'string') {
+        throw new Error('project_id must be a string');
       }
 
-      if (typeof args.author === 'string') {
-        const author = args.author.toLowerCase();
-        filteredProjects = filteredProjects.filter(project => 
-          project.author.name.toLowerCase().includes(author) ||
-          project.author.email.toLowerCase().includes(author)
-        );
-      }
+      const maxRuns = typeof args.max_runs === 'number'
+        ? Math.min(500, Math.max(1, Math.floor(args.max_runs)))
+        : DEFAULT_INPUT_HISTORY_RUNS;
 
-      if (typeof args.status === 'string') {
-        filteredProjects = filteredProjects.filter(project => project.status === args.status);
-      }
+      logger.debug('Inferring input parameters:', { projectId, maxRuns });
 
-      if (typeof args.visibility === 'string') {
-        filteredProjects = filteredProjects.filter(project => project.visibility === args.visibility);
-      }
+      const profile = await getProjectInputParams(this.auth, projectId, maxRuns);
+
+      let content = `**Project Input Parameters**\n\n`;
+      content += `**Project ID:** ${projectId}\n`;
+      content += `**Runs Analyzed:** ${profile.runsAnalyzed}\n\n`;
 
-      if (Array.isArray(args.tags)) {
-        const searchTags = args.tags as string[];
-        filteredProjects = filteredProjects.filter(project => 
-          project.tags && project.tags.some((tag: string) => searchTags.includes(tag))
+      if (profile.runsAnalyzed === 0) {
+        content += 'This project has no runs yet, so its inputs cannot be inferred.';
+      } else if (profile.inputs.length === 0) {
+        content += `None of the last ${profile.runsAnalyzed} runs passed input parameters.`;
+      } else {
+        content += markdownTable(
+          ['Input', 'Used In', 'Type', 'Example Values', 'Last Value'],
+          profile.inputs.map(input => [
+            input.name,
+            `${input.runsSeen}/${profile.runsAnalyzed} runs`,
+            input.types.join(' | '),
+            input.examples.map(example => JSON.stringify(example)).join(', '),
+            JSON.stringify(input.lastValue),
+          ])
         );
+        content += `\n*Inputs are inferred from recent runs; parameters that have never been passed explicitly are not listed.*`;
       }
 
-      if (typeof args.updated_after === 'string') {
-        const afterDate = new Date(args.updated_after);
-        filteredProjects = filteredProjects.filter(project => 
-          new Date(project.updatedAt) > afterDate
-        );
+      return toolResult(args, content, { projectId, ...profile });
+    } catch (error) {
+      logger.error('Error getting project inputs:', error);
+      throw error;
+    }
+  }
+
+  private async searchProjects(args: Record<string, unknown>): Promise<CallToolResult> {
+    try {
+      const allProjects = await getAllProjects(this.auth);
+      const filteredProjects = filterProjects(allProjects, args);
+
+      const query = typeof args.query === 'string' ? args.query.trim() : '';
+      let ranked: Array<{ project: HexProject; score?: number; matchedFields?: SearchField[] }> =
+        query
+          ? new ProjectSearchIndex(filteredProjects).search(query, { fuzzy: args.fuzzy !== false })
+          : filteredProjects.map(project => ({ project }));
+
+      const sortBy = typeof args.sort_by === 'string' ? args.sort_by : 'relevance';
+      if (sortBy !== 'relevance' || !query) {
+        ranked = sortProjects(ranked, sortBy === 'relevance' ? 'updated_at' : sortBy, args.sort_order);
       }
 
       const limit = typeof args.limit === 'number' ? args.limit : 20;
-      const results = filteredProjects.slice(0, limit);
+      const fingerprint = searchFingerprint(args);
+      const offset = typeof args.cursor === 'string' ? decodeSearchCursor(args.cursor, fingerprint) : 0;
+      const results = ranked.slice(offset, offset + limit);
+      const nextOffset = offset + results.length;
 
       let content = `**Search Results**\n\n`;
-      content += `Found ${results.length} project${results.length !== 1 ? 's' : ''} `;
-      if (filteredProjects.length > results.length) {
-        content += `(showing first ${results.length} of ${filteredProjects.length} total)`;
+      content += `Found ${ranked.length} project${ranked.length !== 1 ? 's' : ''}`;
+      if (results.length > 0 && (offset > 0 || nextOffset < ranked.length)) {
+        content += ` (showing ${offset + 1}-${nextOffset})`;
       }
       content += '\n\n';
 
       if (results.length === 0) {
-        content += 'No projects match your search criteria.';
+        content += offset > 0 ? 'No more results.' : 'No projects match your search criteria.';
       } else {
-        results.forEach((project, index) => {
-          content += `${index + 1}. **${project.name}** (${project.projectId})\n`;
-          content += `   Status: ${project.status} | Visibility: ${project.visibility}\n`;
-          content += `   Author: ${project.author.name}\n`;
-          content += `   Updated: ${new Date(project.updatedAt).toLocaleString()}\n`;
-          if (project.description) {
-            content += `   Description: ${project.description}\n`;
-          }
-          if (project.tags && project.tags.length > 0) {
-            content += `   Tags: ${project.tags.join(', ')}\n`;
-          }
-          content += '\n';
-        });
+        const items = results.map(({ project, score, matchedFields }) => ({
+          project,
+          ...(score !== undefined && {
+            details: {
+              Relevance: `${score.toFixed(2)}${matchedFields?.length ? ` (matched ${matchedFields.join(', ')})` : ''}`,
+            },
+          }),
+        }));
+        content += renderProjectList(items, getRenderOptions(args), offset);
       }
 
-      return {
-        content: [{ type: 'text', text: content }],
-      };
+      const nextCursor = nextOffset < ranked.length ? encodeSearchCursor(nextOffset, fingerprint) : undefined;
+      if (nextCursor) {
+        content += `**Next cursor:** \`${nextCursor}\` (pass as \`cursor\` with the same filters for the next page)`;
+      }
+
+      return toolResult(args, content, {
+        total: ranked.length,
+        results,
+        ...(nextCursor && { nextCursor }),
+      });
     } catch (error) {
       logger.error('Error searching projects:', error);
       throw error;
@@ -522,89 +674,263 @@ export class HexProjectTools {
         throw new Error('project_id must be a string');
       }
 
-      const format = (args.format as string) || 'csv';
+      const format = (args.format as ExportFormat) || 'csv';
+      if (!['csv', 'json', 'parquet', 'excel'].includes(format)) {
+        throw new Error('format must be one of: csv, json, parquet, excel');
+      }
+
       const includeMetadata = args.include_metadata !== false;
-      const runId = args.run_id as string;
 
-      let content = `**Data Export Request**\n\n`;
-      content += `**Project ID:** ${projectId}\n`;
-      content += `**Format:** ${format}\n`;
-      content += `**Include Metadata:** ${includeMetadata}\n`;
-      
-      if (runId) {
-        content += `**Run ID:** ${runId}\n`;
+      let run: HexProjectRun | undefined;
+      if (typeof args.run_id === 'string') {
+        run = await getRun(this.auth, projectId, args.run_id);
       } else {
-        content += `**Run:** Latest successful run\n`;
+        [run] = await getRunHistory(this.auth, projectId, { status: 'SUCCESS', maxRuns: 1 });
+        if (!run) {
+          throw new Error(`Project ${projectId} has no successful runs to export`);
+        }
       }
 
-      content += '\n**Note:** This is a simulated export function. In a full implementation, this would:\n';
-      content += `1. Retrieve the project run results\n`;
-      content += `2. Format the data as ${format.toUpperCase()}\n`;
-      content += `3. Generate a download URL or return the formatted data\n`;
-      content += `4. Include project metadata if requested\n\n`;
-      content += `For actual data export, you would need to use Hex's specific export APIs or run the project and retrieve its output parameters.`;
+      if (!run.outputParams || Object.keys(run.outputParams).length === 0) {
+        throw new Error(`Run ${run.runId} (${run.status}) has no output parameters to export`);
+      }
 
-      return {
-        content: [{ type: 'text', text: content }],
-      };
+      logger.debug('Exporting run outputs:', { projectId, runId: run.runId, format });
+
+      let metadata: Record<string, unknown> | undefined;
+      if (includeMetadata) {
+        const project = await this.auth.makeRequest<HexProject>(`/projects/${projectId}`, {
+          method: 'GET',
+        });
+
+        if (this.auth.isApiError(project)) {
+          throw new Error(project.error.message);
+        }
+
+        const { outputParams: _outputs, ...runMetadata } = run;
+        metadata = {
+          project,
+          run: runMetadata,
+          exportedAt: new Date().toISOString(),
+        };
+      }
+
+      const tables = outputParamsToTables(run.outputParams);
+      const files = await exportTables(tables, {
+        directory: config.exportDir,
+        baseName: `${projectId}_${run.runId}`,
+        format,
+        ...(metadata && { metadata }),
+      });
+
+      let content = `**Data Export Complete**\n\n`;
+      content += `**Project ID:** ${projectId}\n`;
+      content += `**Run ID:** ${run.runId}${typeof args.run_id === 'string' ? '' : ' (latest successful run)'}\n`;
+      content += `**Run Completed:** ${run.completedAt ? formatDate(run.completedAt, getRenderOptions(args)) : 'unknown'}\n`;
+      content += `**Format:** ${format}\n`;
+      content += `**Include Metadata:** ${includeMetadata}\n\n`;
+
+      content += `**Tables:**\n`;
+      tables.forEach(table => {
+        content += `- ${table.name}: ${table.rows.length} row${table.rows.length !== 1 ? 's' : ''}, ${table.columns.length} column${table.columns.length !== 1 ? 's' : ''} (${table.columns.join(', ')})\n`;
+      });
+
+      content += `\n**Files Written:**\n`;
+      files.forEach(file => {
+        content += `- ${file.path}${file.table ? ` (${file.table})` : ''}\n`;
+      });
+
+      return toolResult(args, content, {
+        projectId,
+        runId: run.runId,
+        format,
+        tables: tables.map(table => ({ name: table.name, columns: table.columns, rows: table.rows.length })),
+        files,
+      });
     } catch (error) {
       logger.error('Error exporting project data:', error);
       throw error;
     }
   }
 
-  private async bulkRunProjects(args: Record<string, unknown>): Promise<CallToolResult> {
+  private async bulkRunProjects(args: Record<string, unknown>, context: ToolCallContext): Promise<CallToolResult> {
     try {
-      const projectConfigs = args.project_configs as Array<{
-        project_id: string;
-        input_params?: Record<string, unknown>;
-        use_cached_sql_results?: boolean;
-      }>;
+      const projectConfigs = args.project_configs as BulkRunConfig[];
 
       if (!Array.isArray(projectConfigs) || projectConfigs.length === 0) {
         throw new Error('project_configs must be a non-empty array');
       }
 
-      const executionMode = (args.execution_mode as string) || 'parallel';
-      const maxConcurrent = (args.max_concurrent as number) || 5;
-      const stopOnError = args.stop_on_error !== false;
+      projectConfigs.forEach((config, index) => {
+        if (!config || typeof config.project_id !== 'string') {
+          throw new Error(`project_configs[${index}].project_id must be a string`);
+        }
+      });
+
+      const executionMode = args.execution_mode === 'sequential' ? 'sequential' : 'parallel';
+      const maxConcurrent = typeof args.max_concurrent === 'number'
+        ? Math.min(10, Math.max(1, Math.floor(args.max_concurrent)))
+        : 5;
+      const stopOnError = executionMode === 'sequential' && args.stop_on_error === true;
+      const maxWaitSeconds = typeof args.max_wait_seconds === 'number' ? args.max_wait_seconds : 600;
+
+      const requests = projectConfigs.map(bulkRunRequest);
+
+      if (args.dry_run === true) {
+        return this.previewBulkRun(requests, args, executionMode, maxConcurrent);
+      }
+
+      this.confirmations.redeem(args.confirm_token, 'bulk_run', requests);
+
+      logger.debug('Bulk running projects:', { count: projectConfigs.length, executionMode, maxConcurrent });
+
+      let stopped = false;
+      const startedAt = Date.now();
+
+      const results = await runWithConcurrency(
+        requests,
+        executionMode === 'parallel' ? maxConcurrent : 1,
+        async (request): Promise<BulkRunResult> => {
+          const { outputs: _outputs, ...run } = await executeBatchRun(this.auth, request, {
+            timeoutMs: maxWaitSeconds * 1000,
+            ...(context.signal && { signal: context.signal }),
+          });
+          const result: BulkRunResult = { projectId: request.projectId, ...run };
+          if (stopOnError && result.status !== 'SUCCESS') {
+            stopped = true;
+          }
+          return result;
+        },
+        // Once the request is cancelled, no further runs are started
+        { shouldStop: () => stopped || context.signal?.aborted === true }
+      );
+
+      const rows: BulkRunResult[] = results.map((result, index) => result ?? {
+        projectId: projectConfigs[index]?.project_id ?? 'unknown',
+        status: 'SKIPPED',
+        error: context.signal?.aborted
+          ? 'Not started because the request was cancelled'
+          : 'Skipped after an earlier failure (stop_on_error)',
+      });
 
       let content = `**Bulk Project Execution**\n\n`;
-      content += `**Projects to Run:** ${projectConfigs.length}\n`;
+      content += `**Projects:** ${projectConfigs.length}\n`;
       content += `**Execution Mode:** ${executionMode}\n`;
-      
+
       if (executionMode === 'parallel') {
         content += `**Max Concurrent:** ${maxConcurrent}\n`;
       } else {
         content += `**Stop on Error:** ${stopOnError}\n`;
       }
-      
-      content += '\n**Project Configuration:**\n';
-      
-      projectConfigs.forEach((config, index) => {
-        content += `${index + 1}. Project: ${config.project_id}\n`;
-        if (config.input_params) {
-          content += `   Input Params: ${Object.keys(config.input_params).length} parameters\n`;
-        }
-        content += `   Use Cache: ${config.use_cached_sql_results !== false}\n`;
-      });
 
-      content += '\n**Note:** This is a simulated bulk execution function. In a full implementation, this would:\n';
-      content += `1. Execute projects ${executionMode === 'parallel' ? 'in parallel' : 'sequentially'}\n`;
-      content += `2. Monitor progress and handle failures\n`;
-      content += `3. Return aggregated results and status\n`;
-      content += `4. Respect rate limits and concurrent execution limits\n\n`;
-      content += `Use individual \`hex_run_project\` calls for actual project execution.`;
+      content += renderBatchSummary(rows, Date.now() - startedAt);
 
-      return {
-        content: [{ type: 'text', text: content }],
-      };
+      content += markdownTable(
+        ['#', 'Project', 'Status', 'Run ID', 'Duration', 'Error'],
+        rows.map((row, index) => [
+          index + 1,
+          row.projectId,
+          ...batchRunCells(row),
+          row.error ?? '',
+        ])
+      );
+
+      content += renderBatchNotes(rows, maxWaitSeconds);
+
+      return toolResult(args, content, {
+        executionMode,
+        totalTimeMs: Date.now() - startedAt,
+        counts: countByStatus(rows),
+        results: rows,
+      });
     } catch (error) {
       logger.error('Error in bulk run projects:', error);
       throw error;
     }
   }
 
+  /**
+   * Previews a bulk run without starting anything: resolves each project,
+   * validates its inputs and estimates the total time from past runs. A
+   * confirm token is only issued when every project resolves.
+   */
+  private async previewBulkRun(
+    requests: HexRunProjectRequest[],
+    args: Record<string, unknown>,
+    executionMode: 'parallel' | 'sequential',
+    maxConcurrent: number
+  ): Promise<CallToolResult> {
+    const previews = (await runWithConcurrency(requests, 5, async (request): Promise<BulkRunPreview> => {
+      try {
+        const [project, estimatedDuration, validation] = await Promise.all([
+          getProject(this.auth, request.projectId),
+          estimateRunDuration(this.auth, request.projectId),
+          checkInputParams(this.auth, request.projectId, request.inputParams || {}),
+        ]);
+        return { projectId: request.projectId, name: project.name, request, estimatedDuration, inputWarnings: validation.warnings };
+      } catch (error) {
+        return {
+          projectId: request.projectId,
+          request,
+          inputWarnings: [],
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    })) as BulkRunPreview[];
+
+    const durations = previews
+      .map(preview => preview.estimatedDuration?.medianMs)
+      .filter((duration): duration is number => duration !== undefined);
+    const totalMs = executionMode === 'parallel'
+      ? estimateMakespan(durations, maxConcurrent)
+      : durations.reduce((sum, duration) => sum + duration, 0);
+    const unresolved = previews.filter(preview => preview.error !== undefined);
+
+    let content = `**Dry Run: Bulk Execution Not Started**\n\n`;
+    content += `**Projects:** ${requests.length}\n`;
+    content += `**Execution Mode:** ${executionMode}${executionMode === 'parallel' ? ` (max ${maxConcurrent} at once)` : ''}\n`;
+    content += `**Estimated Total Time:** ${durations.length > 0 ? `~${formatDuration(totalMs)}` : 'unknown'}`;
+    content += durations.length < previews.length
+      ? ` (${previews.length - durations.length} project${previews.length - durations.length !== 1 ? 's' : ''} without successful runs to estimate from)\n\n`
+      : '\n\n';
+
+    content += markdownTable(
+      ['#', 'Project', 'Name', 'Estimated Duration', 'Notes'],
+      previews.map((preview, index) => [
+        index + 1,
+        preview.projectId,
+        preview.name ?? '-',
+        preview.estimatedDuration ? formatDurationEstimate(preview.estimatedDuration) : '-',
+        preview.error ?? preview.inputWarnings.join('; '),
+      ])
+    );
+
+    content += `\n**Requests:** \`POST /projects/{projectId}/runs\` for each project\n`;
+    content += `\`\`\`json\n${JSON.stringify(requests, null, 2)}\n\`\`\`\n\n`;
+
+    const data: Record<string, unknown> = {
+      dryRun: true,
+      executionMode,
+      estimatedTotalMs: durations.length > 0 ? totalMs : null,
+      projects: previews,
+    };
+
+    if (unresolved.length > 0) {
+      content += `*Fix the ${unresolved.length} project${unresolved.length !== 1 ? 's' : ''} that could not be resolved before running; no confirm token was issued.*`;
+      return toolResult(args, content, data);
+    }
+
+    const confirmation = this.confirmations.issue('bulk_run', requests);
+    content += `*To start these runs, call again with the same project_configs without dry_run and with confirm_token="${confirmation.token}" `;
+    content += `(valid until ${formatDate(confirmation.expiresAt, getRenderOptions(args))}).*`;
+
+    return toolResult(args, content, {
+      ...data,
+      confirmToken: confirmation.token,
+      confirmTokenExpiresAt: confirmation.expiresAt,
+    });
+  }
+
   private async getProjectSummary(args: Record<string, unknown>): Promise<CallToolResult> {
     try {
       const projectIds = args.project_ids as string[];
@@ -614,97 +940,295 @@ export class HexProjectTools {
 
       const includeRunHistory = args.include_run_history !== false;
       const includePerformanceMetrics = args.include_performance_metrics === true;
+      const historySize = includePerformanceMetrics ? 100 : 5;
 
-      let content = `**Project Summary Report**\n\n`;
-      content += `**Projects Analyzed:** ${projectIds.length}\n`;
-      content += `**Include Run History:** ${includeRunHistory}\n`;
-      content += `**Include Performance Metrics:** ${includePerformanceMetrics}\n\n`;
+      logger.debug('Summarizing projects:', { count: projectIds.length, includeRunHistory, includePerformanceMetrics });
+
+      // Requests are paced by the shared rate limiter, so concurrency only hides latency
+      const summaries = await runWithConcurrency(projectIds, 5, async (projectId): Promise<ProjectSummary> => {
+        const summary: ProjectSummary = { projectId };
 
-      for (let i = 0; i < projectIds.length; i++) {
-        const projectId = projectIds[i];
         try {
           const project = await this.auth.makeRequest<HexProject>(`/projects/${projectId}`, {
             method: 'GET',
           });
 
           if (this.auth.isApiError(project)) {
-            content += `${i + 1}. **${projectId}** - Error: ${project.error.message}\n\n`;
-            continue;
+            summary.error = project.error.message;
+            return summary;
           }
 
-          content += `${i + 1}. **${project.name}** (${project.projectId})\n`;
-          content += `   Status: ${project.status} | Visibility: ${project.visibility}\n`;
-          content += `   Author: ${project.author.name}\n`;
-          content += `   Updated: ${new Date(project.updatedAt).toLocaleString()}\n`;
-
-          if (includeRunHistory) {
-            try {
-              const runs = await this.auth.makeRequest<{ runs: any[] }>(`/projects/${projectId}/runs`, {
-                method: 'GET',
-                params: { limit: 5 },
-              });
-
-              if (!this.auth.isApiError(runs)) {
-                const recentRuns = runs.runs || [];
-                content += `   Recent Runs: ${recentRuns.length} (showing last 5)\n`;
-                
-                recentRuns.forEach((run: any) => {
-                  const statusEmoji: Record<string, string> = {
-                    'SUCCESS': '✅',
-                    'ERROR': '❌',
-                    'CANCELLED': '🛑',
-                    'RUNNING': '⏳',
-                    'PENDING': '⏱️',
-                  };
-                  
-                  content += `     ${statusEmoji[run.status] || '❓'} ${run.status} - ${new Date(run.startedAt).toLocaleDateString()}\n`;
-                });
-              }
-            } catch (runError) {
-              content += `   Run History: Unable to fetch\n`;
-            }
+          summary.project = project;
+        } catch (error) {
+          summary.error = 'Error fetching project details';
+          return summary;
+        }
+
+        if (includeRunHistory || includePerformanceMetrics) {
+          try {
+            summary.runs = await getRunHistory(this.auth, projectId, { maxRuns: historySize });
+          } catch (runError) {
+            summary.runsError = true;
           }
+        }
+
+        return summary;
+      });
+
+      let content = `**Project Summary Report**\n\n`;
+      content += `**Projects Analyzed:** ${projectIds.length}\n`;
+      content += `**Include Run History:** ${includeRunHistory}\n`;
+      content += `**Include Performance Metrics:** ${includePerformanceMetrics}\n\n`;
+
+      const renderOptions = getRenderOptions(args);
+      const metricsRows: Array<{ name: string; metrics: PerformanceMetrics }> = [];
+      const data: Array<Record<string, unknown>> = [];
+
+      summaries.forEach((summary, i) => {
+        if (!summary || !summary.project) {
+          content += `${i + 1}. **${projectIds[i]}** - Error: ${summary?.error || 'Unknown error'}\n\n`;
+          data.push({ projectId: projectIds[i], error: summary?.error || 'Unknown error' });
+          return;
+        }
+
+        const entry: Record<string, unknown> = { projectId: summary.projectId, project: summary.project };
+        data.push(entry);
+
+        const project = summary.project;
+        content += `${i + 1}. **${project.name}** (${project.projectId})\n`;
+        content += `   Status: ${project.status} | Visibility: ${project.visibility}\n`;
+        content += `   Author: ${project.author.name}\n`;
+        content += `   Updated: ${formatDate(project.updatedAt, renderOptions)}\n`;
+
+        if (summary.runsError) {
+          content += `   Run History: Unable to fetch\n`;
+          entry.runsError = 'Unable to fetch run history';
+        }
+
+        if (includeRunHistory && summary.runs) {
+          const recentRuns = summary.runs.slice(0, 5);
+          entry.recentRuns = recentRuns;
 
-          if (includePerformanceMetrics) {
-            content += `   Performance: [Metrics would be calculated from run history]\n`;
+          if (renderOptions.mode === 'compact') {
+            content += `   Recent Runs: ${recentRuns.map(run => statusEmoji(run.status)).join(' ') || 'none'}\n`;
+          } else {
+            content += `   Recent Runs: ${recentRuns.length} (showing last 5)\n`;
+            recentRuns.forEach(run => {
+              content += `     ${statusEmoji(run.status)} ${run.status} - ${formatDate(run.startedAt, renderOptions)}\n`;
+            });
           }
+        }
 
-          content += '\n';
-        } catch (error) {
-          content += `${i + 1}. **${projectId}** - Error fetching project details\n\n`;
+        if (includePerformanceMetrics && summary.runs) {
+          const metrics = computePerformanceMetrics(summary.runs);
+          metricsRows.push({ name: project.name, metrics });
+          entry.performance = metrics;
+
+          content += `   Performance (last ${summary.runs.length} runs):\n`;
+          content += `     Runtime: avg ${formatOptionalDuration(metrics.averageMs)}, median ${formatOptionalDuration(metrics.medianMs)}\n`;
+          content += `     Success Rate: ${metrics.successRate === undefined ? '-' : `${(metrics.successRate * 100).toFixed(1)}%`}\n`;
+          content += `     Last Success: ${metrics.lastSuccessAt ? formatDate(metrics.lastSuccessAt, renderOptions) : 'never'}\n`;
+          content += `     Since Last Failure: ${metrics.lastFailureAt ? formatDuration(Date.now() - new Date(metrics.lastFailureAt).getTime()) : 'no failures'}\n`;
         }
+
+        content += '\n';
+      });
+
+      if (metricsRows.length > 1) {
+        content += `**Performance Overview:**\n\n`;
+        content += markdownTable(
+          ['Project', 'Runs', 'Success Rate', 'Avg Runtime', 'Median Runtime', 'Last Success', 'Since Last Failure'],
+          metricsRows.map(({ name, metrics }) => [
+            name,
+            metrics.runCount,
+            metrics.successRate === undefined ? '-' : `${(metrics.successRate * 100).toFixed(1)}%`,
+            formatOptionalDuration(metrics.averageMs),
+            formatOptionalDuration(metrics.medianMs),
+            metrics.lastSuccessAt ? formatDate(metrics.lastSuccessAt, renderOptions) : 'never',
+            metrics.lastFailureAt ? formatDuration(Date.now() - new Date(metrics.lastFailureAt).getTime()) : 'no failures',
+          ])
+        );
       }
 
-      return {
-        content: [{ type: 'text', text: content }],
-      };
+      return toolResult(args, content, { projects: data });
     } catch (error) {
       logger.error('Error getting project summary:', error);
       throw error;
     }
   }
+}
 
-  private async getAllProjects(): Promise<HexProject[]> {
-    const allProjects: HexProject[] = [];
-    let after: string | undefined;
-    
-    do {
-      const response = await this.auth.makeRequest<HexProjectListResponse>('/projects', {
-        method: 'GET',
-        params: {
-          limit: 100,
-          ...(after && { after }),
-        },
-      });
+interface PerformanceMetrics {
+  runCount: number;
+  averageMs?: number;
+  medianMs?: number;
+  successRate?: number;
+  lastSuccessAt?: string;
+  lastFailureAt?: string;
+}
 
-      if (this.auth.isApiError(response)) {
-        throw new Error(response.error.message);
+/** Metrics over a newest-first run history; runtimes use successful runs only. */
+function computePerformanceMetrics(runs: HexProjectRun[]): PerformanceMetrics {
+  const finished = runs.filter(run => isTerminalRunStatus(run.status));
+  const successes = finished.filter(run => run.status === 'SUCCESS');
+  const durations = successes
+    .map(run => getRunDurationMs(run))
+    .filter((duration): duration is number => duration !== undefined);
+
+  const metrics: PerformanceMetrics = { runCount: runs.length };
+
+  const averageMs = mean(durations);
+  const medianMs = median(durations);
+  if (averageMs !== undefined) metrics.averageMs = averageMs;
+  if (medianMs !== undefined) metrics.medianMs = medianMs;
+
+  if (finished.length > 0) {
+    metrics.successRate = successes.length / finished.length;
+  }
+
+  const lastSuccess = successes[0];
+  if (lastSuccess) {
+    metrics.lastSuccessAt = lastSuccess.completedAt || lastSuccess.startedAt;
+  }
+
+  const lastFailure = finished.find(run => run.status === 'ERROR');
+  if (lastFailure) {
+    metrics.lastFailureAt = lastFailure.completedAt || lastFailure.startedAt;
+  }
+
+  return metrics;
+}
+
+function bulkRunRequest(config: BulkRunConfig): HexRunProjectRequest {
+  const request: HexRunProjectRequest = {
+    projectId: config.project_id,
+    useCachedSqlResults: config.use_cached_sql_results !== false,
+  };
+
+  if (config.input_params && typeof config.input_params === 'object') {
+    request.inputParams = config.input_params;
+  }
+
+  return request;
+}
+
+function formatOptionalDuration(ms: number | undefined): string {
+  return ms === undefined ? '-' : formatDuration(ms);
+}
+
+function sortProjects<T extends { project: HexProject }>(items: T[], sortBy: string, order: unknown): T[] {
+  const direction = order === 'asc' || order === 'desc' ? order : sortBy === 'name' ? 'asc' : 'desc';
+  const compare = (a: T, b: T): number => {
+    switch (sortBy) {
+      case 'name':
+        return a.project.name.localeCompare(b.project.name);
+      case 'created_at':
+        return new Date(a.project.createdAt).getTime() - new Date(b.project.createdAt).getTime();
+      case 'updated_at':
+        return new Date(a.project.updatedAt).getTime() - new Date(b.project.updatedAt).getTime();
+      default:
+        throw new Error(`Invalid sort_by: ${sortBy}. Use relevance, updated_at, created_at or name`);
+    }
+  };
+
+  return [...items].sort((a, b) => direction === 'asc' ? compare(a, b) : compare(b, a));
+}
+
+function parseDateFilter(args: Record<string, unknown>, key: string): number | undefined {
+  const value = args[key];
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+
+  const time = new Date(value).getTime();
+  if (isNaN(time)) {
+    throw new Error(`Invalid ${key}: ${value}. Use ISO 8601, e.g. 2024-05-01`);
+  }
+  return time;
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+/** Applies the hex_search_projects filters; tag and author comparisons are case-insensitive. */
+function filterProjects(projects: HexProject[], args: Record<string, unknown>): HexProject[] {
+  const lower = (value: string) => value.toLowerCase();
+  const authorMatches = (project: HexProject, value: string) =>
+    lower(project.author.name).includes(lower(value)) || lower(project.author.email).includes(lower(value));
+  const projectTags = (project: HexProject) => (project.tags || []).map(lower);
+
+  if (typeof args.status === 'string' && !PROJECT_STATUSES.includes(args.status as HexProject['status'])) {
+    throw new Error(`Invalid status: ${args.status}. Use one of: ${PROJECT_STATUSES.join(', ')}`);
+  }
+
+  const tags = stringList(args.tags).map(lower);
+  const notTags = stringList(args.not_tags).map(lower);
+  const tagsMode = args.tags_mode === 'all' ? 'all' : 'any';
+  const dateFilters: Array<[number | undefined, (project: HexProject, time: number) => boolean]> = [
+    [parseDateFilter(args, 'updated_after'), (project, time) => new Date(project.updatedAt).getTime() > time],
+    [parseDateFilter(args, 'updated_before'), (project, time) => new Date(project.updatedAt).getTime() < time],
+    [parseDateFilter(args, 'created_after'), (project, time) => new Date(project.createdAt).getTime() > time],
+    [parseDateFilter(args, 'created_before'), (project, time) => new Date(project.createdAt).getTime() < time],
+  ];
+
+  return projects.filter(project => {
+    if (typeof args.author === 'string' && !authorMatches(project, args.author)) {
+      return false;
+    }
+    if (typeof args.not_author === 'string' && authorMatches(project, args.not_author)) {
+      return false;
+    }
+    if (typeof args.status === 'string' && project.status !== args.status) {
+      return false;
+    }
+    if (typeof args.visibility === 'string' && project.visibility !== args.visibility) {
+      return false;
+    }
+    if (
+      typeof args.workspace === 'string' &&
+      project.workspace.workspaceId !== args.workspace &&
+      lower(project.workspace.name) !== lower(args.workspace)
+    ) {
+      return false;
+    }
+    if (tags.length > 0) {
+      const has = projectTags(project);
+      if (tagsMode === 'all' ? !tags.every(tag => has.includes(tag)) : !tags.some(tag => has.includes(tag))) {
+        return false;
       }
+    }
+    if (notTags.length > 0 && projectTags(project).some(tag => notTags.includes(tag))) {
+      return false;
+    }
+    return dateFilters.every(([time, matches]) => time === undefined || matches(project, time));
+  });
+}
+
+/** Identifies a search by everything except its page position, so cursors can't be reused across searches. */
+function searchFingerprint(args: Record<string, unknown>): string {
+  const { cursor: _cursor, limit: _limit, output_format: _outputFormat, detail: _detail, ...search } = args;
+  const canonical = JSON.stringify(Object.keys(search).sort().map(key => [key, search[key]]));
+  return createHash('sha256').update(canonical).digest('hex').slice(0, 12);
+}
 
-      allProjects.push(...(response.projects || []));
-      after = response.hasMore ? response.nextCursor : undefined;
-    } while (after);
+function encodeSearchCursor(offset: number, fingerprint: string): string {
+  return Buffer.from(JSON.stringify({ offset, fingerprint })).toString('base64url');
+}
 
-    return allProjects;
+function decodeSearchCursor(cursor: string, fingerprint: string): number {
+  let decoded: { offset?: unknown; fingerprint?: unknown };
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error(`Invalid cursor: ${cursor}`);
+  }
+
+  if (typeof decoded.offset !== 'number' || decoded.offset < 0) {
+    throw new Error(`Invalid cursor: ${cursor}`);
+  }
+  if (decoded.fingerprint !== fingerprint) {
+    throw new Error('This cursor belongs to a search with different query, filters or sort. Repeat the search without a cursor.');
   }
-}
\ No newline at end of file
+  return decoded.offset;
+}
@@ -0,0 +1,308 @@
+import { Tool, CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { HexScheduler, CreateScheduleInput } from '../scheduler/scheduler.js';
+import { HexRunProjectRequest, HexSchedule, HexScheduleType } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import { toolResult } from '../utils/output.js';
+import { formatDate, getRenderOptions } from '../utils/render.js';
+
+const SCHEDULE_TYPES: HexScheduleType[] = ['once', 'daily', 'weekly', 'monthly', 'cron'];
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export class HexScheduleTools {
+  constructor(private scheduler: HexScheduler) {}
+
+  getToolDefinitions(): Tool[] {
+    const scheduleIdSchema: Tool['inputSchema'] = {
+      type: 'object',
+      properties: {
+        schedule_id: {
+          type: 'string',
+          description: 'The schedule ID returned by hex_schedule_project_run',
+        },
+      },
+      required: ['schedule_id'],
+    };
+
+    return [
+      {
+        name: 'hex_schedule_project_run',
+        description: 'Schedule a project to run at a specific time or with a recurring schedule. Schedules are stored locally and run while this server is running.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            project_id: {
+              type: 'string',
+              description: 'The unique identifier of the project',
+            },
+            schedule_type: {
+              type: 'string',
+              enum: SCHEDULE_TYPES,
+              description: 'Type of schedule',
+              default: 'once',
+            },
+            scheduled_time: {
+              type: 'string',
+              description: 'When to run (ISO 8601 format for "once", "HH:MM" or ISO 8601 for daily/weekly/monthly). Times without an offset are in `timezone`.',
+            },
+            cron_expression: {
+              type: 'string',
+              description: 'Five-field cron expression (minute hour day-of-month month day-of-week), required when schedule_type is "cron"',
+            },
+            day_of_week: {
+              type: ['number', 'string'],
+              description: 'Day for weekly schedules (0-6 with Sunday = 0, or a day name). Defaults to the weekday of scheduled_time.',
+            },
+            day_of_month: {
+              type: 'number',
+              description: 'Day for monthly schedules (1-31; months without that day are skipped). Defaults to the day of scheduled_time.',
+              minimum: 1,
+              maximum: 31,
+            },
+            input_params: {
+              type: 'object',
+              description: 'Input parameters to pass to the project',
+            },
+            timezone: {
+              type: 'string',
+              description: 'Timezone for scheduled execution (e.g., "America/New_York")',
+              default: 'UTC',
+            },
+            notification_config: {
+              type: 'object',
+              description: 'Notification configuration for scheduled runs',
+            },
+          },
+          required: ['project_id'],
+        },
+      },
+      {
+        name: 'hex_list_schedules',
+        description: 'List locally scheduled project runs with their next run time and last fired run ID',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            project_id: {
+              type: 'string',
+              description: 'Only show schedules for this project',
+            },
+            status: {
+              type: 'string',
+              enum: ['ACTIVE', 'PAUSED', 'COMPLETED'],
+              description: 'Filter schedules by status',
+            },
+          },
+        },
+      },
+      {
+        name: 'hex_pause_schedule',
+        description: 'Pause a schedule so it stops triggering runs until resumed',
+        inputSchema: scheduleIdSchema,
+      },
+      {
+        name: 'hex_resume_schedule',
+        description: 'Resume a paused schedule',
+        inputSchema: scheduleIdSchema,
+      },
+      {
+        name: 'hex_delete_schedule',
+        description: 'Permanently delete a schedule',
+        inputSchema: scheduleIdSchema,
+      },
+    ];
+  }
+
+  canHandleTool(name: string): boolean {
+    return [
+      'hex_schedule_project_run',
+      'hex_list_schedules',
+      'hex_pause_schedule',
+      'hex_resume_schedule',
+      'hex_delete_schedule'
+    ].includes(name);
+  }
+
+  async callTool(name: string, args: Record<string, unknown>): Promise<CallToolResult> {
+    switch (name) {
+      case 'hex_schedule_project_run':
+        return this.scheduleProjectRun(args);
+      case 'hex_list_schedules':
+        return this.listSchedules(args);
+      case 'hex_pause_schedule':
+        return this.updateSchedule(args, 'pause');
+      case 'hex_resume_schedule':
+        return this.updateSchedule(args, 'resume');
+      case 'hex_delete_schedule':
+        return this.updateSchedule(args, 'delete');
+      default:
+        throw new Error(`Unknown tool: ${name}`);
+    }
+  }
+
+  private async scheduleProjectRun(args: Record<string, unknown>): Promise<CallToolResult> {
+    try {
+      const projectId = args.project_id;
+      if (typeof projectId !== 'string') {
+        throw new Error('project_id must be a string');
+      }
+
+      const scheduleType = (args.schedule_type as HexScheduleType) || 'once';
+      if (!SCHEDULE_TYPES.includes(scheduleType)) {
+        throw new Error(`schedule_type must be one of: ${SCHEDULE_TYPES.join(', ')}`);
+      }
+
+      const input: CreateScheduleInput = {
+        projectId,
+        scheduleType,
+        timezone: typeof args.timezone === 'string' ? args.timezone : 'UTC',
+      };
+
+      if (typeof args.profile === 'string') {
+        input.profile = args.profile;
+      }
+
+      if (typeof args.scheduled_time === 'string') {
+        input.scheduledTime = args.scheduled_time;
+      }
+
+      if (typeof args.cron_expression === 'string') {
+        input.cronExpression = args.cron_expression;
+      }
+
+      if (typeof args.day_of_week === 'number') {
+        input.dayOfWeek = args.day_of_week;
+      } else if (typeof args.day_of_week === 'string') {
+        const prefix = args.day_of_week.toLowerCase().slice(0, 3);
+        const dayIndex = prefix.length === 3 ? DAY_NAMES.findIndex(day => day.startsWith(prefix)) : -1;
+        if (dayIndex === -1) {
+          throw new Error(`Invalid day_of_week: ${args.day_of_week}`);
+        }
+        input.dayOfWeek = dayIndex;
+      }
+
+      if (typeof args.day_of_month === 'number') {
+        input.dayOfMonth = args.day_of_month;
+      }
+
+      if (args.input_params && typeof args.input_params === 'object') {
+        input.inputParams = args.input_params as Record<string, unknown>;
+      }
+
+      if (args.notification_config && typeof args.notification_config === 'object') {
+        input.notificationConfig = args.notification_config as HexRunProjectRequest['notificationConfig'];
+      }
+
+      logger.debug('Scheduling project run:', input);
+
+      const schedule = await this.scheduler.create(input);
+
+      let content = `**Project Run Scheduled**\n\n`;
+      content += this.formatSchedule(schedule);
+      content += `\nUse \`hex_list_schedules\` to see when it last fired, or \`hex_pause_schedule\` / \`hex_delete_schedule\` with schedule_id="${schedule.scheduleId}" to manage it.`;
+
+      return toolResult(args, content, schedule);
+    } catch (error) {
+      logger.error('Error scheduling project run:', error);
+      throw error;
+    }
+  }
+
+  private async listSchedules(args: Record<string, unknown>): Promise<CallToolResult> {
+    try {
+      let schedules = this.scheduler.list();
+
+      if (typeof args.project_id === 'string') {
+        schedules = schedules.filter(schedule => schedule.projectId === args.project_id);
+      }
+
+      if (typeof args.status === 'string') {
+        schedules = schedules.filter(schedule => schedule.status === args.status);
+      }
+
+      schedules.sort((a, b) => (a.nextRunAt || '~').localeCompare(b.nextRunAt || '~'));
+
+      let content = `**Scheduled Project Runs**\n\n`;
+      content += `Found ${schedules.length} schedule${schedules.length !== 1 ? 's' : ''}\n\n`;
+
+      if (schedules.length === 0) {
+        content += 'No schedules found. Use `hex_schedule_project_run` to create one.';
+      }
+
+      schedules.forEach((schedule, index) => {
+        content += `${index + 1}. ${this.formatSchedule(schedule).replace(/\n/g, '\n   ')}\n`;
+      });
+
+      return toolResult(args, content, { schedules });
+    } catch (error) {
+      logger.error('Error listing schedules:', error);
+      throw error;
+    }
+  }
+
+  private async updateSchedule(
+    args: Record<string, unknown>,
+    action: 'pause' | 'resume' | 'delete'
+  ): Promise<CallToolResult> {
+    try {
+      const scheduleId = args.schedule_id;
+      if (typeof scheduleId !== 'string') {
+        throw new Error('schedule_id must be a string');
+      }
+
+      logger.debug(`Schedule ${action}:`, scheduleId);
+
+      const schedule = await this.scheduler[action](scheduleId);
+      const title = {
+        pause: 'Schedule Paused',
+        resume: 'Schedule Resumed',
+        delete: 'Schedule Deleted',
+      }[action];
+
+      return toolResult(args, `**${title}**\n\n${this.formatSchedule(schedule)}`, schedule);
+    } catch (error) {
+      logger.error(`Error during schedule ${action}:`, error);
+      throw error;
+    }
+  }
+
+  private formatSchedule(schedule: HexSchedule): string {
+    let content = `**Schedule ID:** ${schedule.scheduleId}\n`;
+    content += `**Project ID:** ${schedule.projectId}\n`;
+    if (schedule.profile) {
+      content += `**Profile:** ${schedule.profile}\n`;
+    }
+    content += `**Status:** ${schedule.status}\n`;
+    content += `**Schedule:** ${schedule.scheduleType}`;
+    content += schedule.cronExpression ? ` (\`${schedule.cronExpression}\`)` : '';
+    content += ` in ${schedule.timezone}\n`;
+
+    if (schedule.runAt) {
+      content += `**Run At:** ${this.formatTime(schedule.runAt, schedule.timezone)}\n`;
+    }
+
+    if (schedule.nextRunAt) {
+      content += `**Next Run:** ${this.formatTime(schedule.nextRunAt, schedule.timezone)}\n`;
+    }
+
+    content += `**Runs Triggered:** ${schedule.runCount}\n`;
+
+    if (schedule.lastRunAt) {
+      content += `**Last Fired:** ${this.formatTime(schedule.lastRunAt, schedule.timezone)}`;
+      content += schedule.lastRunId ? ` (Run ID: ${schedule.lastRunId})\n` : '\n';
+    }
+
+    if (schedule.lastError) {
+      content += `**Last Error:** ${schedule.lastError}\n`;
+    }
+
+    if (schedule.inputParams) {
+      content += `**Input Parameters:** ${JSON.stringify(schedule.inputParams)}\n`;
+    }
+
+    return content;
+  }
+
+  private formatTime(iso: string, timeZone: string): string {
+    // Schedule times are shown in the schedule's own timezone, not the display timezone
+    return `${formatDate(iso, { ...getRenderOptions(), timeZone })} (${timeZone})`;
+  }
+}
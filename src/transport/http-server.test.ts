@@ -0,0 +1,214 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { AddressInfo } from 'node:net';
+import { request, Server as NodeHttpServer } from 'node:http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { HexHttpServer, HttpServerOptions, HttpSessionInfo } from './http-server.js';
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2024-11-05', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+};
+const LIST_TOOLS = { jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} };
+
+describe('HexHttpServer', () => {
+  let server: HexHttpServer | undefined;
+  let baseUrl: string;
+  let sessions: HttpSessionInfo[];
+
+  async function startServer(options: Partial<HttpServerOptions> = {}): Promise<void> {
+    sessions = [];
+    server = new HexHttpServer({
+      host: '127.0.0.1',
+      port: 0,
+      sessionIdleMs: 60_000,
+      requireClientToken: false,
+      allowedOrigins: [],
+      createServer: async session => {
+        sessions.push(session);
+        const mcpServer = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+        mcpServer.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [] }));
+        return mcpServer;
+      },
+      ...options,
+    });
+    await server.start();
+
+    const { port } = (server as unknown as { httpServer: NodeHttpServer }).httpServer.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+  }
+
+  function post(body: unknown, headers: Record<string, string> = {}): Promise<Response> {
+    return fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json', ...headers },
+      body: JSON.stringify(body),
+    });
+  }
+
+  async function initialize(headers: Record<string, string> = {}): Promise<string> {
+    const response = await post(INITIALIZE, headers);
+    expect(response.status).toBe(200);
+    await response.json();
+    return response.headers.get('mcp-session-id') as string;
+  }
+
+  /** Posts an initialize request with a Host header fetch wouldn't let us set. */
+  function initializeWithHost(host: string): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const req = request(`${baseUrl}/mcp`, {
+        method: 'POST',
+        headers: { Host: host, 'Content-Type': 'application/json', Accept: 'application/json' },
+      }, res => {
+        res.resume();
+        resolve(res.statusCode as number);
+      });
+      req.on('error', reject);
+      req.end(JSON.stringify(INITIALIZE));
+    });
+  }
+
+  async function health(): Promise<{ sessions: Record<string, number> }> {
+    return (await fetch(`${baseUrl}/health`)).json() as Promise<{ sessions: Record<string, number> }>;
+  }
+
+  beforeEach(() => {
+    jest.spyOn(console, 'info').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    await server?.stop();
+    server = undefined;
+    jest.restoreAllMocks();
+  });
+
+  it('opens a session on initialize and answers later requests in it', async () => {
+    await startServer();
+    const sessionId = await initialize();
+
+    expect(sessionId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(sessions).toEqual([{ id: sessionId, kind: 'streamable-http' }]);
+    expect((await health()).sessions).toEqual({ total: 1, 'streamable-http': 1 });
+
+    const response = await post(LIST_TOOLS, { 'Mcp-Session-Id': sessionId });
+    await expect(response.json()).resolves.toEqual({ jsonrpc: '2.0', id: 2, result: { tools: [] } });
+  });
+
+  it('streams replies as server-sent events when the client accepts them', async () => {
+    await startServer();
+    const sessionId = await initialize();
+
+    const response = await post(LIST_TOOLS, { 'Mcp-Session-Id': sessionId, Accept: 'application/json, text/event-stream' });
+
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    const [event, data] = (await response.text()).trim().split('\n');
+    expect(event).toBe('event: message');
+    expect(JSON.parse((data as string).replace(/^data: /, ''))).toEqual({ jsonrpc: '2.0', id: 2, result: { tools: [] } });
+  });
+
+  it('accepts notifications without a reply', async () => {
+    await startServer();
+    const sessionId = await initialize();
+
+    const response = await post({ jsonrpc: '2.0', method: 'notifications/initialized' }, { 'Mcp-Session-Id': sessionId });
+    expect(response.status).toBe(202);
+  });
+
+  it('rejects requests without a known session', async () => {
+    await startServer();
+
+    expect((await post(LIST_TOOLS)).status).toBe(400);
+    expect((await post(LIST_TOOLS, { 'Mcp-Session-Id': 'unknown' })).status).toBe(404);
+  });
+
+  it('rejects malformed bodies', async () => {
+    await startServer();
+    const response = await fetch(`${baseUrl}/mcp`, { method: 'POST', body: '{not json' });
+
+    expect(response.status).toBe(400);
+    await expect(response.json()).resolves.toMatchObject({ error: { code: -32700 } });
+  });
+
+  it('closes a session on DELETE', async () => {
+    await startServer();
+    const sessionId = await initialize();
+
+    const response = await fetch(`${baseUrl}/mcp`, { method: 'DELETE', headers: { 'Mcp-Session-Id': sessionId } });
+    expect(response.status).toBe(200);
+    expect((await health()).sessions.total).toBe(0);
+    expect((await post(LIST_TOOLS, { 'Mcp-Session-Id': sessionId })).status).toBe(404);
+  });
+
+  it('binds a session to the bearer token it was opened with', async () => {
+    await startServer();
+    const sessionId = await initialize({ Authorization: 'Bearer token-a' });
+
+    expect(sessions[0]?.clientToken).toBe('token-a');
+    expect((await post(LIST_TOOLS, { 'Mcp-Session-Id': sessionId, Authorization: 'Bearer token-b' })).status).toBe(403);
+    expect((await post(LIST_TOOLS, { 'Mcp-Session-Id': sessionId })).status).toBe(403);
+    expect((await post(LIST_TOOLS, { 'Mcp-Session-Id': sessionId, Authorization: 'Bearer token-a' })).status).toBe(200);
+  });
+
+  it('requires a bearer token when configured to', async () => {
+    await startServer({ requireClientToken: true });
+
+    const response = await post(INITIALIZE);
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toBe('Bearer');
+  });
+
+  it('answers 401 when the client\'s token is rejected', async () => {
+    await startServer({
+      createServer: async () => {
+        throw new Error('Invalid Hex API token');
+      },
+    });
+
+    const response = await post(INITIALIZE, { Authorization: 'Bearer bad' });
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toBe('Bearer error="invalid_token"');
+    expect((await health()).sessions.total).toBe(0);
+  });
+
+  it('only accepts browser requests from localhost or allowed origins', async () => {
+    await startServer({ allowedOrigins: ['https://app.example.com/'] });
+
+    const rejected = await post(INITIALIZE, { Origin: 'https://evil.example' });
+    expect(rejected.status).toBe(403);
+    await expect(rejected.json()).resolves.toMatchObject({ error: { message: 'Forbidden: Origin https://evil.example is not allowed' } });
+    expect((await post(INITIALIZE, { Origin: 'null' })).status).toBe(403);
+    expect((await fetch(`${baseUrl}/sse`, { headers: { Origin: 'https://evil.example' } })).status).toBe(403);
+
+    await initialize({ Origin: 'https://app.example.com' });
+    await initialize({ Origin: 'http://localhost:6274' });
+    expect(sessions).toHaveLength(2);
+  });
+
+  it('rejects Host headers other than localhost or the bind address', async () => {
+    await startServer({ allowedOrigins: ['https://mcp.example.com'] });
+
+    expect(await initializeWithHost('rebound.example:3000')).toBe(403);
+    expect(await initializeWithHost('localhost:3000')).toBe(200);
+    expect(await initializeWithHost('127.0.0.1')).toBe(200);
+    expect(await initializeWithHost('mcp.example.com')).toBe(200);
+    expect((await health()).sessions.total).toBe(3);
+  });
+
+  it('only checks the origin when bound to all interfaces', async () => {
+    await startServer({ host: '0.0.0.0' });
+
+    expect(await initializeWithHost('server.internal:3000')).toBe(200);
+    expect((await post(INITIALIZE, { Origin: 'http://server.internal:3000' })).status).toBe(403);
+  });
+
+  it('closes sessions that stay idle', async () => {
+    await startServer({ sessionIdleMs: 50 });
+    await initialize();
+
+    await new Promise(resolve => setTimeout(resolve, 200));
+    expect((await health()).sessions.total).toBe(0);
+  });
+});
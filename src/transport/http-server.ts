@@ -0,0 +1,403 @@
+import { createHash } from 'node:crypto';
+import { createServer, IncomingMessage, Server as NodeHttpServer, ServerResponse } from 'node:http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { logger } from '../utils/logger.js';
+import { StreamableHttpServerTransport } from './streamable-http.js';
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  /** Streamable HTTP sessions without requests or open streams for this long are closed. */
+  sessionIdleMs: number;
+  /** Reject clients that don't send their own Hex token in an `Authorization: Bearer` header. */
+  requireClientToken: boolean;
+  /**
+   * Browser origins allowed to call the MCP endpoints besides localhost
+   * ones, e.g. `https://app.example.com`. Requests from any other origin
+   * get `403`.
+   */
+  allowedOrigins: string[];
+  /**
+   * Creates the MCP server for a new session, given the client's bearer
+   * token if it sent one. Rejecting means the token isn't usable.
+   */
+  createServer: (session: HttpSessionInfo) => Promise<Server>;
+}
+
+export interface HttpSessionInfo {
+  id: string;
+  kind: 'streamable-http' | 'sse';
+  clientToken?: string;
+}
+
+interface HttpSession {
+  kind: HttpSessionInfo['kind'];
+  transport: StreamableHttpServerTransport | SSEServerTransport;
+  lastActivityAt: number;
+  /** Hash of the bearer token the session was opened with; later requests must send the same one. */
+  clientTokenHash?: string;
+}
+
+const MCP_PATH = '/mcp';
+const SSE_PATH = '/sse';
+const SSE_MESSAGES_PATH = '/messages';
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const SHUTDOWN_TIMEOUT_MS = 10_000;
+const LOOPBACK_HOSTNAMES = ['localhost', '127.0.0.1', '::1'];
+const WILDCARD_HOSTS = ['0.0.0.0', '::'];
+
+/** The hostname of a URL without IPv6 brackets, or undefined if it doesn't parse. */
+function hostnameOf(url: string): string | undefined {
+  try {
+    return new URL(url).hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+/** `scheme://host[:port]` with the default port dropped, so equal origins compare equal. */
+function normalizeOrigin(origin: string): string | undefined {
+  try {
+    const url = new URL(origin);
+    return ['http:', 'https:'].includes(url.protocol) ? url.origin : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code: -32000, message }, id: null });
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+}
+
+function bearerToken(req: IncomingMessage): string | undefined {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(req.headers.authorization || '');
+  return match?.[1];
+}
+
+function hashToken(token: string | undefined): string | undefined {
+  return token === undefined ? undefined : createHash('sha256').update(token).digest('hex');
+}
+
+function isInitializeRequest(body: unknown): boolean {
+  const messages = Array.isArray(body) ? body : [body];
+  return messages.some(message => (message as { method?: unknown } | null)?.method === 'initialize');
+}
+
+/**
+ * Serves MCP over HTTP for several clients at once. Streamable HTTP clients
+ * use `/mcp`; older clients can connect with the SSE transport at `/sse`.
+ * Every session gets its own MCP server from `createServer`, while the Hex
+ * client, cache and rate limiter behind them are shared, except for clients
+ * sending their own Hex token, which are bound to it for the whole session.
+ */
+export class HexHttpServer {
+  private httpServer: NodeHttpServer;
+  private sessions = new Map<string, HttpSession>();
+  private sweepTimer: NodeJS.Timeout | undefined;
+  private startedAt = Date.now();
+  private allowedOrigins: Set<string>;
+  private allowedHostnames: Set<string>;
+
+  constructor(private options: HttpServerOptions) {
+    this.allowedOrigins = new Set(options.allowedOrigins
+      .map(normalizeOrigin)
+      .filter((origin): origin is string => origin !== undefined));
+    this.allowedHostnames = new Set([
+      ...LOOPBACK_HOSTNAMES,
+      options.host.replace(/^\[(.*)\]$/, '$1').toLowerCase(),
+      ...[...this.allowedOrigins].map(origin => hostnameOf(origin) as string),
+    ]);
+
+    this.httpServer = createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        logger.error(`Error handling ${req.method} ${req.url}:`, error);
+        if (!res.headersSent) {
+          sendJsonRpcError(res, 500, 'Internal server error');
+        } else {
+          res.end();
+        }
+      });
+    });
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(this.options.port, this.options.host, () => {
+        this.httpServer.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.sweepTimer = setInterval(() => this.closeIdleSessions(), Math.min(this.options.sessionIdleMs, 60_000));
+    this.sweepTimer.unref();
+
+    logger.info(`Listening on http://${this.options.host}:${this.options.port}${MCP_PATH} (SSE fallback at ${SSE_PATH})`);
+  }
+
+  /**
+   * Stops accepting connections, closes every session so open streams end,
+   * and waits for in-flight requests, forcing connections closed after a
+   * grace period.
+   */
+  async stop(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+
+    const closed = new Promise<void>(resolve => this.httpServer.close(() => resolve()));
+    await Promise.all([...this.sessions.values()].map(session => session.transport.close()));
+    this.httpServer.closeIdleConnections();
+
+    const forceTimer = setTimeout(() => {
+      logger.warn('Forcing open HTTP connections closed');
+      this.httpServer.closeAllConnections();
+    }, SHUTDOWN_TIMEOUT_MS);
+
+    await closed;
+    clearTimeout(forceTimer);
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (url.pathname === '/health' && req.method === 'GET') {
+      const counts = [...this.sessions.values()].reduce(
+        (acc, session) => ({ ...acc, [session.kind]: (acc[session.kind] || 0) + 1 }),
+        {} as Record<string, number>
+      );
+      sendJson(res, 200, {
+        status: 'ok',
+        uptimeSeconds: Math.round((Date.now() - this.startedAt) / 1000),
+        sessions: { total: this.sessions.size, ...counts },
+      });
+      return;
+    }
+
+    const rejection = this.checkOriginAndHost(req);
+    if (rejection) {
+      logger.warn(`Rejected ${req.method} ${url.pathname}: ${rejection}`);
+      sendJsonRpcError(res, 403, `Forbidden: ${rejection}`);
+      return;
+    }
+
+    const clientToken = bearerToken(req);
+    if (this.options.requireClientToken && clientToken === undefined) {
+      res.writeHead(401, { 'WWW-Authenticate': 'Bearer', 'Content-Type': 'application/json' })
+        .end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32001, message: 'A Hex API token is required as a bearer token' }, id: null }));
+      return;
+    }
+
+    if (url.pathname === MCP_PATH) {
+      await this.handleStreamableHttp(req, res);
+      return;
+    }
+
+    if (url.pathname === SSE_PATH && req.method === 'GET') {
+      await this.connect('sse', new SSEServerTransport(SSE_MESSAGES_PATH, res), clientToken, res);
+      return;
+    }
+
+    if (url.pathname === SSE_MESSAGES_PATH && req.method === 'POST') {
+      const session = this.sessions.get(url.searchParams.get('sessionId') || '');
+      if (!session || session.kind !== 'sse') {
+        res.writeHead(404).end('Session not found');
+        return;
+      }
+      if (session.clientTokenHash !== hashToken(clientToken)) {
+        res.writeHead(403).end('Bearer token does not match the session');
+        return;
+      }
+      session.lastActivityAt = Date.now();
+      await (session.transport as SSEServerTransport).handlePostMessage(req, res);
+      return;
+    }
+
+    res.writeHead(404).end('Not found');
+  }
+
+  /**
+   * Guards against DNS rebinding: a web page whose domain resolves to this
+   * server must not be able to call it from the user's browser. Requests
+   * from a browser origin other than localhost or the allowed origins are
+   * refused, as are requests whose Host isn't localhost, the bind address
+   * or the host of an allowed origin. When bound to all interfaces the
+   * server can't tell which names are its own, so only the origin is checked.
+   * Returns why the request was refused, if it was.
+   */
+  private checkOriginAndHost(req: IncomingMessage): string | undefined {
+    const origin = req.headers.origin;
+    if (origin !== undefined) {
+      const normalized = normalizeOrigin(origin);
+      const hostname = normalized === undefined ? undefined : hostnameOf(normalized);
+      if (
+        normalized === undefined ||
+        !(this.allowedOrigins.has(normalized) || LOOPBACK_HOSTNAMES.includes(hostname as string))
+      ) {
+        return `Origin ${origin} is not allowed`;
+      }
+    }
+
+    if (!WILDCARD_HOSTS.includes(this.options.host)) {
+      const hostname = hostnameOf(`http://${req.headers.host ?? ''}`);
+      if (hostname === undefined || !this.allowedHostnames.has(hostname)) {
+        return `Host ${req.headers.host ?? '(none)'} is not allowed`;
+      }
+    }
+
+    return undefined;
+  }
+
+  private async handleStreamableHttp(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'];
+
+    if (req.method === 'POST') {
+      let body: unknown;
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        sendJson(res, 400, {
+          jsonrpc: '2.0',
+          error: { code: -32700, message: `Parse error: ${error instanceof Error ? error.message : 'invalid JSON'}` },
+          id: null,
+        });
+        return;
+      }
+
+      if (!sessionId && isInitializeRequest(body)) {
+        const transport = new StreamableHttpServerTransport();
+        if (await this.connect('streamable-http', transport, bearerToken(req), res)) {
+          await transport.handlePost(req, res, body);
+        }
+        return;
+      }
+
+      const session = this.getStreamableSession(sessionId, req, res);
+      if (session) {
+        await session.handlePost(req, res, body);
+      }
+      return;
+    }
+
+    if (req.method === 'GET') {
+      const session = this.getStreamableSession(sessionId, req, res);
+      if (session) {
+        await session.handleGet(res);
+      }
+      return;
+    }
+
+    if (req.method === 'DELETE') {
+      const session = this.getStreamableSession(sessionId, req, res);
+      if (session) {
+        await session.close();
+        res.writeHead(200).end();
+      }
+      return;
+    }
+
+    res.writeHead(405, { Allow: 'GET, POST, DELETE' }).end();
+  }
+
+  /** Looks up the session named by the Mcp-Session-Id header, answering with an error if there isn't one. */
+  private getStreamableSession(
+    sessionId: string | string[] | undefined,
+    req: IncomingMessage,
+    res: ServerResponse
+  ): StreamableHttpServerTransport | undefined {
+    if (typeof sessionId !== 'string') {
+      sendJsonRpcError(res, 400, 'Bad Request: Mcp-Session-Id header is required');
+      return undefined;
+    }
+
+    const session = this.sessions.get(sessionId);
+    if (!session || session.kind !== 'streamable-http') {
+      sendJsonRpcError(res, 404, 'Session not found');
+      return undefined;
+    }
+
+    if (session.clientTokenHash !== hashToken(bearerToken(req))) {
+      sendJsonRpcError(res, 403, 'Bearer token does not match the session');
+      return undefined;
+    }
+
+    session.lastActivityAt = Date.now();
+    return session.transport as StreamableHttpServerTransport;
+  }
+
+  /** Opens a session, answering 401 if the client's token is rejected. Returns whether it was opened. */
+  private async connect(
+    kind: HttpSession['kind'],
+    transport: HttpSession['transport'],
+    clientToken: string | undefined,
+    res: ServerResponse
+  ): Promise<boolean> {
+    const sessionId = transport.sessionId;
+    let server: Server;
+    try {
+      server = await this.options.createServer({ id: sessionId, kind, ...(clientToken !== undefined && { clientToken }) });
+    } catch (error) {
+      if (clientToken === undefined) {
+        throw error;
+      }
+      logger.warn(`Rejected ${kind} session: ${error instanceof Error ? error.message : error}`);
+      res.writeHead(401, { 'WWW-Authenticate': 'Bearer error="invalid_token"', 'Content-Type': 'application/json' })
+        .end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32001, message: 'The bearer token was rejected by the Hex API' }, id: null }));
+      return false;
+    }
+
+    const onclose = server.onclose;
+    server.onclose = () => {
+      if (this.sessions.delete(sessionId)) {
+        logger.info(`Closed ${kind} session ${sessionId}`);
+      }
+      onclose?.();
+    };
+
+    const session: HttpSession = { kind, transport, lastActivityAt: Date.now() };
+    const clientTokenHash = hashToken(clientToken);
+    if (clientTokenHash) {
+      session.clientTokenHash = clientTokenHash;
+    }
+
+    this.sessions.set(sessionId, session);
+    await server.connect(transport);
+    logger.info(`Opened ${kind} session ${sessionId}${clientToken ? ' with a client token' : ''}`);
+    return true;
+  }
+
+  private closeIdleSessions(): void {
+    const cutoff = Date.now() - this.options.sessionIdleMs;
+    this.sessions.forEach((session, sessionId) => {
+      if (
+        session.kind === 'streamable-http' &&
+        session.lastActivityAt < cutoff &&
+        !(session.transport as StreamableHttpServerTransport).isStreaming
+      ) {
+        logger.info(`Closing idle session ${sessionId}`);
+        session.transport.close().catch(error => logger.error(`Failed to close session ${sessionId}:`, error));
+      }
+    });
+  }
+}
@@ -0,0 +1,212 @@
+import { randomUUID } from 'node:crypto';
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  JSONRPCError,
+  JSONRPCMessage,
+  JSONRPCMessageSchema,
+  JSONRPCRequest,
+  JSONRPCResponse,
+  RequestId,
+} from '@modelcontextprotocol/sdk/types.js';
+import { logger } from '../utils/logger.js';
+
+/** The HTTP response carrying the replies to one POSTed batch of requests. */
+interface ResponseStream {
+  res: ServerResponse;
+  /** Requests in the batch that haven't been answered yet. */
+  pending: Set<RequestId>;
+  /** Reply with one JSON body once every request is answered, instead of an SSE stream. */
+  json: boolean;
+  batch: boolean;
+  responses: JSONRPCMessage[];
+}
+
+function isRequest(message: JSONRPCMessage): message is JSONRPCRequest {
+  return 'method' in message && 'id' in message;
+}
+
+function isResponse(message: JSONRPCMessage): message is JSONRPCResponse | JSONRPCError {
+  return 'id' in message && ('result' in message || 'error' in message);
+}
+
+function writeEvent(res: ServerResponse, message: JSONRPCMessage): void {
+  res.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+}
+
+/**
+ * Server side of the MCP streamable HTTP transport, which the installed SDK
+ * predates. Each POST carries one message or a batch; requests are answered
+ * on that POST, either as an SSE stream (so progress notifications can be
+ * interleaved) or as a single JSON body when the client doesn't accept
+ * `text/event-stream`. Other server-initiated messages, such as resource
+ * updates, go to the session's GET stream when one is open.
+ */
+export class StreamableHttpServerTransport implements Transport {
+  readonly sessionId = randomUUID();
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  private streamsByRequest = new Map<RequestId, ResponseStream>();
+  private requestsByProgressToken = new Map<string | number, RequestId>();
+  private standaloneStream: ServerResponse | undefined;
+  private closed = false;
+
+  async start(): Promise<void> {
+    // Nothing to set up; messages arrive through handlePost
+  }
+
+  /** True while the client holds a response or the GET stream open, i.e. the session isn't idle. */
+  get isStreaming(): boolean {
+    return this.standaloneStream !== undefined || this.streamsByRequest.size > 0;
+  }
+
+  async handlePost(req: IncomingMessage, res: ServerResponse, body: unknown): Promise<void> {
+    let messages: JSONRPCMessage[];
+    try {
+      messages = (Array.isArray(body) ? body : [body]).map(message => JSONRPCMessageSchema.parse(message));
+    } catch (error) {
+      this.onerror?.(error as Error);
+      res.writeHead(400, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+        jsonrpc: '2.0',
+        error: { code: -32700, message: 'Parse error: invalid JSON-RPC message' },
+        id: null,
+      }));
+      return;
+    }
+
+    const requests = messages.filter(isRequest);
+    if (requests.length === 0) {
+      res.writeHead(202, { 'Mcp-Session-Id': this.sessionId }).end();
+      messages.forEach(message => this.onmessage?.(message));
+      return;
+    }
+
+    const stream: ResponseStream = {
+      res,
+      pending: new Set(requests.map(request => request.id)),
+      json: !(req.headers.accept || '').includes('text/event-stream'),
+      batch: Array.isArray(body),
+      responses: [],
+    };
+
+    if (!stream.json) {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'Mcp-Session-Id': this.sessionId,
+      });
+    }
+
+    requests.forEach(request => {
+      this.streamsByRequest.set(request.id, stream);
+      const progressToken = request.params?._meta?.progressToken;
+      if (progressToken !== undefined) {
+        this.requestsByProgressToken.set(progressToken, request.id);
+      }
+    });
+
+    res.on('close', () => this.forgetStream(stream));
+
+    messages.forEach(message => this.onmessage?.(message));
+  }
+
+  /** Opens the stream for server-initiated messages that aren't tied to a request. */
+  async handleGet(res: ServerResponse): Promise<void> {
+    if (this.standaloneStream) {
+      res.writeHead(409).end('A stream is already open for this session');
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'Mcp-Session-Id': this.sessionId,
+    });
+    this.standaloneStream = res;
+    res.on('close', () => {
+      if (this.standaloneStream === res) {
+        this.standaloneStream = undefined;
+      }
+    });
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (this.closed) {
+      throw new Error('Not connected');
+    }
+
+    if (isResponse(message)) {
+      const stream = this.streamsByRequest.get(message.id);
+      if (!stream) {
+        logger.debug(`Dropping response to request ${message.id}: its HTTP request has closed`);
+        return;
+      }
+
+      this.streamsByRequest.delete(message.id);
+      stream.pending.delete(message.id);
+
+      if (stream.json) {
+        stream.responses.push(message);
+        if (stream.pending.size === 0) {
+          stream.res.writeHead(200, { 'Content-Type': 'application/json', 'Mcp-Session-Id': this.sessionId })
+            .end(JSON.stringify(stream.batch ? stream.responses : stream.responses[0]));
+        }
+      } else {
+        writeEvent(stream.res, message);
+        if (stream.pending.size === 0) {
+          stream.res.end();
+        }
+      }
+      return;
+    }
+
+    const target = this.streamFor(message);
+    if (target) {
+      writeEvent(target, message);
+    } else {
+      logger.debug('Dropping server message with no open stream:', 'method' in message ? message.method : message);
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+
+    new Set(this.streamsByRequest.values()).forEach(stream => stream.res.end());
+    this.streamsByRequest.clear();
+    this.requestsByProgressToken.clear();
+    this.standaloneStream?.end();
+    this.standaloneStream = undefined;
+
+    this.onclose?.();
+  }
+
+  /** Progress goes to the stream of the request it reports on; anything else to the GET stream. */
+  private streamFor(message: JSONRPCMessage): ServerResponse | undefined {
+    if ('method' in message && message.method === 'notifications/progress') {
+      const token = (message.params as { progressToken?: string | number } | undefined)?.progressToken;
+      const requestId = token !== undefined ? this.requestsByProgressToken.get(token) : undefined;
+      const stream = requestId !== undefined ? this.streamsByRequest.get(requestId) : undefined;
+      if (stream && !stream.json) {
+        return stream.res;
+      }
+    }
+    return this.standaloneStream;
+  }
+
+  private forgetStream(stream: ResponseStream): void {
+    stream.pending.forEach(id => this.streamsByRequest.delete(id));
+    this.requestsByProgressToken.forEach((id, token) => {
+      if (!this.streamsByRequest.has(id)) {
+        this.requestsByProgressToken.delete(token);
+      }
+    });
+  }
+}
@@ -3,6 +3,45 @@ export interface HexConfig {
   baseUrl: string;
   timeout: number;
   debug: boolean;
+  scheduleFile: string;
+  pipelineFile: string;
+  profilesFile: string;
+  exportDir: string;
+  rateLimitPerMinute: number;
+  rateLimitBurst: number;
+  maxRetries: number;
+  cacheProjectListTtlMs: number;
+  cacheProjectTtlMs: number;
+  cacheCompletedRunTtlMs: number;
+  cacheMaxEntries: number;
+  outputFormat: 'markdown' | 'json' | 'both';
+  renderMode: 'compact' | 'verbose';
+  displayTimezone: string;
+  displayLocale?: string;
+  dateFormat: 'locale' | 'iso' | 'relative';
+  transport: 'stdio' | 'http';
+  httpHost: string;
+  httpPort: number;
+  httpSessionIdleMs: number;
+  /** Reject HTTP clients that don't send their own Hex token as a bearer token. */
+  httpRequireClientToken: boolean;
+  /** Browser origins besides localhost allowed to call the HTTP transport. */
+  httpAllowedOrigins: string[];
+  /** Hide and reject tools that start, cancel or schedule runs, or change saved pipelines. */
+  readOnly: boolean;
+  /** Project rules for mutating tools: project IDs, `tag:<tag>` or `name:<glob>`. */
+  projectAllowlist: string[];
+  projectDenylist: string[];
+  /** Runs each client session may start; 0 means unlimited. */
+  maxRunsPerSession: number;
+  /** Run, cancel and bulk run calls must pass a confirm token from a dry run. */
+  requireConfirmation: boolean;
+  auditEnabled: boolean;
+  auditLogFile: string;
+  /** The audit log is rotated when it would grow past this, and at the start of each UTC day. */
+  auditMaxBytes: number;
+  /** Rotated audit logs kept; older ones are deleted. */
+  auditMaxFiles: number;
 }
 
 export interface HexProject {
@@ -31,10 +70,12 @@ export interface HexProjectListResponse {
   nextCursor?: string;
 }
 
+export type HexRunStatus = 'PENDING' | 'RUNNING' | 'SUCCESS' | 'ERROR' | 'CANCELLED';
+
 export interface HexProjectRun {
   runId: string;
   projectId: string;
-  status: 'PENDING' | 'RUNNING' | 'SUCCESS' | 'ERROR' | 'CANCELLED';
+  status: HexRunStatus;
   startedAt: string;
   completedAt?: string;
   executionTime?: number;
@@ -48,6 +89,12 @@ export interface HexProjectRun {
   };
 }
 
+export interface HexProjectRunListResponse {
+  runs: HexProjectRun[];
+  hasMore?: boolean;
+  nextCursor?: string;
+}
+
 export interface HexRunProjectRequest {
   projectId: string;
   inputParams?: Record<string, unknown>;
@@ -80,6 +127,97 @@ export interface HexPresignedUrlResponse {
   expiresAt: string;
 }
 
+export type HexScheduleType = 'once' | 'daily' | 'weekly' | 'monthly' | 'cron';
+
+export interface HexSchedule {
+  scheduleId: string;
+  projectId: string;
+  scheduleType: HexScheduleType;
+  /** Set for recurring schedules; daily/weekly/monthly are stored as their cron equivalent. */
+  cronExpression?: string;
+  /** Set for one-off schedules. */
+  runAt?: string;
+  timezone: string;
+  /** Profile the runs are started with; the default profile when unset. */
+  profile?: string;
+  inputParams?: Record<string, unknown>;
+  notificationConfig?: HexRunProjectRequest['notificationConfig'];
+  status: 'ACTIVE' | 'PAUSED' | 'COMPLETED';
+  createdAt: string;
+  nextRunAt?: string;
+  lastRunAt?: string;
+  lastRunId?: string;
+  lastError?: string;
+  runCount: number;
+}
+
+export type HexPipelineFailurePolicy = 'stop' | 'continue';
+
+export interface HexPipelineStep {
+  id: string;
+  projectId: string;
+  inputParams?: Record<string, unknown>;
+  /** Steps that must succeed before this one starts. Steps referenced by `inputMappings` are implied. */
+  dependsOn?: string[];
+  /** Input parameter name -> `<stepId>.<outputKey>` of an upstream run's `outputParams`. */
+  inputMappings?: Record<string, string>;
+  /** `stop` (default) starts no further steps after this one fails; `continue` only skips its dependents. */
+  onFailure?: HexPipelineFailurePolicy;
+  useCachedSqlResults?: boolean;
+}
+
+export interface HexPipeline {
+  name: string;
+  description?: string;
+  steps: HexPipelineStep[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** One HTTP request to the Hex API, as recorded in the audit log. */
+export interface HexAuditApiRequest {
+  method: string;
+  endpoint: string;
+  /** Missing when the request failed without a response, e.g. a timeout. */
+  status?: number;
+  durationMs: number;
+  error?: string;
+}
+
+export interface HexAuditRunEvent {
+  action: 'started' | 'cancelled';
+  projectId: string;
+  runId: string;
+}
+
+/** A line of the audit log: one tool call, resource read, scheduled run or other source of Hex API requests. */
+export interface HexAuditEntry {
+  timestamp: string;
+  /**
+   * What made the API requests: a client's tool call, resource read, other
+   * MCP request or session start, the background polls of its run
+   * subscriptions, a schedule firing, or for `system`, none of these, e.g. a
+   * profile connecting at startup.
+   */
+  type: 'tool_call' | 'resource_read' | 'mcp_request' | 'session_start' | 'subscription_poll' | 'scheduled_run' | 'system';
+  /** Tool name, resource URI, MCP method or schedule ID; for `system`, the request's method and endpoint. */
+  name: string;
+  /** Arguments with secrets redacted and long values truncated. */
+  arguments?: Record<string, unknown>;
+  sessionId?: string;
+  transport?: 'stdio' | 'streamable-http' | 'sse';
+  /** Client name and version from the MCP handshake. */
+  client?: string;
+  profile?: string;
+  /** Short hash identifying the Hex token of an HTTP client that sent its own. */
+  clientTokenId?: string;
+  outcome: 'success' | 'error';
+  error?: string;
+  durationMs: number;
+  apiRequests: HexAuditApiRequest[];
+  runs: HexAuditRunEvent[];
+}
+
 export interface HexApiError {
   error: {
     code: string;
@@ -93,4 +231,26 @@ export interface HexPaginationOptions {
   after?: string;
 }
 
-export type HexApiResponse<T> = T | HexApiError;
\ No newline at end of file
+export type HexApiResponse<T> = T | HexApiError;
+
+export interface HexRequestOptions {
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  body?: unknown;
+  params?: Record<string, string | number>;
+  /**
+   * Whether the request is safe to repeat after a 5xx or network failure.
+   * Defaults to true for everything except POST.
+   */
+  idempotent?: boolean;
+  /** Overrides the configured retry count; 0 disables retries entirely. */
+  retries?: number;
+  /** Skip the response cache and always fetch from the API. */
+  noCache?: boolean;
+}
+
+export interface ToolCallContext {
+  /** Sends an MCP progress notification; only set when the client supplied a progress token. */
+  sendProgress?: (progress: number, total?: number, message?: string) => Promise<void>;
+  /** Aborted when the client cancels the request. */
+  signal?: AbortSignal;
+}
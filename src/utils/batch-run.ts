@@ -0,0 +1,110 @@
+import { HexAuth } from '../auth/hex-auth.js';
+import { HexRunProjectRequest, HexRunStatus } from '../types/index.js';
+import { formatDuration } from './format.js';
+import { getRunDurationMs, triggerRun, waitForRun } from './hex-api.js';
+import { logger } from './logger.js';
+import { statusEmoji } from './render.js';
+
+/**
+ * How one run of a batch ended. FAILED_TO_START runs never started and are
+ * safe to retry; UNKNOWN runs started but couldn't be followed, e.g. because
+ * the request was cancelled, so retrying them would start a duplicate.
+ */
+export type BatchRunStatus = HexRunStatus | 'FAILED_TO_START' | 'UNKNOWN' | 'SKIPPED';
+
+export interface BatchRunResult {
+  runId?: string;
+  status: BatchRunStatus;
+  durationMs?: number;
+  error?: string;
+  outputs?: Record<string, unknown>;
+}
+
+export interface BatchRunOptions {
+  timeoutMs: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Starts a run and waits for it, as each run of a bulk run or parameter
+ * sweep does. Failures are reported in the result rather than thrown, so
+ * one run can't end the whole batch.
+ */
+export async function executeBatchRun(
+  auth: HexAuth,
+  request: HexRunProjectRequest,
+  options: BatchRunOptions
+): Promise<BatchRunResult> {
+  let runId: string | undefined;
+
+  try {
+    const started = await triggerRun(auth, request);
+    runId = started.runId;
+
+    const { run } = await waitForRun(auth, request.projectId, runId, {
+      timeoutMs: options.timeoutMs,
+      ...(options.signal && { signal: options.signal }),
+    });
+    const result: BatchRunResult = { runId, status: run.status };
+
+    const durationMs = getRunDurationMs(run);
+    if (durationMs !== undefined) {
+      result.durationMs = durationMs;
+    }
+
+    if (run.status === 'ERROR') {
+      result.error = run.errorMessage || 'Unknown error';
+    }
+
+    if (run.outputParams) {
+      result.outputs = run.outputParams;
+    }
+
+    return result;
+  } catch (error) {
+    logger.error(`Run of project ${request.projectId} failed${runId ? ` after starting as ${runId}` : ' to start'}:`, error);
+    return {
+      ...(runId && { runId }),
+      status: runId ? 'UNKNOWN' : 'FAILED_TO_START',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+export function countByStatus(results: BatchRunResult[]): Record<string, number> {
+  return results.reduce<Record<string, number>>((acc, result) => {
+    acc[result.status] = (acc[result.status] || 0) + 1;
+    return acc;
+  }, {});
+}
+
+/** The total time and outcome lines of a batch report. */
+export function renderBatchSummary(results: BatchRunResult[], totalMs: number): string {
+  let content = `**Total Time:** ${formatDuration(totalMs)}\n`;
+  content += `**Outcome:** ${Object.entries(countByStatus(results)).map(([status, count]) => `${count} ${status}`).join(', ')}\n\n`;
+  return content;
+}
+
+/** The status, run ID and duration cells of a batch report row. */
+export function batchRunCells(result: BatchRunResult): string[] {
+  return [
+    `${statusEmoji(result.status)} ${result.status}`,
+    result.runId ?? '-',
+    result.durationMs === undefined ? '-' : formatDuration(result.durationMs),
+  ];
+}
+
+/** Closing notes of a batch report for runs that didn't finish or can't be told apart from failures. */
+export function renderBatchNotes(results: BatchRunResult[], maxWaitSeconds: number): string {
+  let content = '';
+
+  if (results.some(result => result.status === 'RUNNING' || result.status === 'PENDING')) {
+    content += `\n*Some runs were still in progress after ${maxWaitSeconds} seconds. Use \`hex_get_run_status\` to follow them.*`;
+  }
+
+  if (results.some(result => result.status === 'UNKNOWN')) {
+    content += `\n*Runs marked UNKNOWN started but couldn't be followed. Check them with \`hex_get_run_status\` before running them again.*`;
+  }
+
+  return content;
+}
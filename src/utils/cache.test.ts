@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { TtlCache } from './cache.js';
+
+describe('TtlCache', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2024-05-01T00:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('returns entries until their TTL elapses', () => {
+    const cache = new TtlCache<string>(10);
+    cache.set('a', 'value', 1_000);
+
+    jest.advanceTimersByTime(999);
+    expect(cache.get('a')).toBe('value');
+
+    jest.advanceTimersByTime(1);
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.stats()).toMatchObject({ entries: 0, hits: 1, misses: 1 });
+  });
+
+  it('does not store entries with no TTL', () => {
+    const cache = new TtlCache<string>(10);
+    cache.set('a', 'value', 0);
+    expect(cache.get('a')).toBeUndefined();
+  });
+
+  it('drops the least recently stored entry when full', () => {
+    const cache = new TtlCache<string>(2);
+    cache.set('a', '1', 1_000);
+    cache.set('b', '2', 1_000);
+    // Storing again moves the key to the back of the line
+    cache.set('a', '1 again', 1_000);
+    cache.set('c', '3', 1_000);
+
+    expect(cache.get('a')).toBe('1 again');
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('c')).toBe('3');
+  });
+
+  it('hands out copies so cached values cannot be mutated', () => {
+    const cache = new TtlCache<{ tags: string[] }>(10);
+    const value = { tags: ['a'] };
+    cache.set('k', value, 1_000);
+    value.tags.push('b');
+
+    const copy = cache.get('k');
+    copy?.tags.push('c');
+
+    expect(cache.get('k')).toEqual({ tags: ['a'] });
+  });
+
+  it('invalidates matching entries or everything', () => {
+    const cache = new TtlCache<string>(10);
+    cache.set('/projects/p1', '1', 1_000);
+    cache.set('/projects/p1/runs/r1', '2', 1_000);
+    cache.set('/projects/p2', '3', 1_000);
+
+    expect(cache.invalidate(key => key.startsWith('/projects/p1'))).toBe(2);
+    expect(cache.get('/projects/p2')).toBe('3');
+    expect(cache.invalidate()).toBe(1);
+    expect(cache.stats().entries).toBe(0);
+  });
+
+  it('reports the oldest live entry', () => {
+    const cache = new TtlCache<string>(10);
+    cache.set('old', '1', 500);
+    jest.advanceTimersByTime(100);
+    cache.set('newer', '2', 10_000);
+    jest.advanceTimersByTime(500);
+
+    expect(cache.stats()).toMatchObject({
+      entries: 1,
+      maxEntries: 10,
+      oldestEntryAt: '2024-05-01T00:00:00.100Z',
+    });
+  });
+});
@@ -0,0 +1,94 @@
+export interface CacheStats {
+  entries: number;
+  maxEntries: number;
+  hits: number;
+  misses: number;
+  oldestEntryAt?: string;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * In-memory TTL cache. Entries are evicted lazily on read once they expire;
+ * when the cache is full the least recently stored entry is dropped. Values
+ * are cloned on the way in and out so callers cannot mutate cached data.
+ */
+export class TtlCache<T> {
+  private entries = new Map<string, CacheEntry<T>>();
+  private hits = 0;
+  private misses = 0;
+
+  constructor(private maxEntries: number) {}
+
+  get(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      this.misses++;
+      return undefined;
+    }
+
+    this.hits++;
+    return structuredClone(entry.value);
+  }
+
+  set(key: string, value: T, ttlMs: number): void {
+    if (ttlMs <= 0 || this.maxEntries <= 0) {
+      return;
+    }
+
+    this.entries.delete(key);
+    while (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+
+    const now = Date.now();
+    this.entries.set(key, { value: structuredClone(value), storedAt: now, expiresAt: now + ttlMs });
+  }
+
+  /** Removes entries whose key matches `predicate`, or every entry when omitted. Returns the number removed. */
+  invalidate(predicate?: (key: string) => boolean): number {
+    if (!predicate) {
+      const removed = this.entries.size;
+      this.entries.clear();
+      return removed;
+    }
+
+    let removed = 0;
+    for (const key of [...this.entries.keys()]) {
+      if (predicate(key)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  stats(): CacheStats {
+    const now = Date.now();
+    let oldest: number | undefined;
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      } else if (oldest === undefined || entry.storedAt < oldest) {
+        oldest = entry.storedAt;
+      }
+    }
+
+    return {
+      entries: this.entries.size,
+      maxEntries: this.maxEntries,
+      hits: this.hits,
+      misses: this.misses,
+      ...(oldest !== undefined && { oldestEntryAt: new Date(oldest).toISOString() }),
+    };
+  }
+}
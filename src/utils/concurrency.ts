@@ -0,0 +1,39 @@
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export interface ConcurrencyOptions {
+  /** Checked before each item is started; once true, remaining items are skipped. */
+  shouldStop?: () => boolean;
+}
+
+/**
+ * Runs `worker` over `items` with at most `limit` in flight at once. Results are
+ * returned in input order; items skipped because `shouldStop` returned true are
+ * left as `undefined`.
+ */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+  options: ConcurrencyOptions = {}
+): Promise<Array<R | undefined>> {
+  const results: Array<R | undefined> = new Array(items.length).fill(undefined);
+  let nextIndex = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      if (options.shouldStop?.()) {
+        return;
+      }
+
+      const index = nextIndex++;
+      results[index] = await worker(items[index] as T, index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, runNext);
+  await Promise.all(workers);
+
+  return results;
+}
@@ -1,33 +1,172 @@
 import { config as dotenvConfig } from 'dotenv';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
 import { HexConfig } from '../types/index.js';
+import { isValidTimeZone } from './timezone.js';
 
 dotenvConfig();
 
+/** Value of a `--name value` or `--name=value` command-line flag. */
+function cliOption(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  const index = args.findIndex(arg => arg === `--${name}` || arg.startsWith(`--${name}=`));
+  if (index === -1) {
+    return undefined;
+  }
+  const arg = args[index] as string;
+  return arg.includes('=') ? arg.slice(arg.indexOf('=') + 1) : args[index + 1];
+}
+
+/** Comma-separated environment variable as a list, without blank entries. */
+function listEnv(name: string): string[] {
+  return (process.env[name] || '').split(',').map(entry => entry.trim()).filter(entry => entry !== '');
+}
+
 export const config: HexConfig = {
   apiToken: process.env.HEX_API_TOKEN || '',
   baseUrl: process.env.HEX_API_BASE_URL || 'https://app.hex.tech/api/v1',
   timeout: parseInt(process.env.HEX_REQUEST_TIMEOUT || '30000', 10),
   debug: process.env.HEX_DEBUG === 'true',
+  scheduleFile: process.env.HEX_SCHEDULE_FILE || join(homedir(), '.mcp-server-hex', 'schedules.json'),
+  pipelineFile: process.env.HEX_PIPELINE_FILE || join(homedir(), '.mcp-server-hex', 'pipelines.json'),
+  profilesFile: process.env.HEX_PROFILES_FILE || join(homedir(), '.mcp-server-hex', 'profiles.json'),
+  exportDir: process.env.HEX_EXPORT_DIR || join(homedir(), '.mcp-server-hex', 'exports'),
+  rateLimitPerMinute: parseInt(process.env.HEX_RATE_LIMIT_PER_MINUTE || '60', 10),
+  rateLimitBurst: parseInt(process.env.HEX_RATE_LIMIT_BURST || '10', 10),
+  maxRetries: parseInt(process.env.HEX_MAX_RETRIES || '3', 10),
+  cacheProjectListTtlMs: parseInt(process.env.HEX_CACHE_PROJECT_LIST_TTL || '300', 10) * 1000,
+  cacheProjectTtlMs: parseInt(process.env.HEX_CACHE_PROJECT_TTL || '300', 10) * 1000,
+  cacheCompletedRunTtlMs: parseInt(process.env.HEX_CACHE_COMPLETED_RUN_TTL || '3600', 10) * 1000,
+  cacheMaxEntries: parseInt(process.env.HEX_CACHE_MAX_ENTRIES || '1000', 10),
+  outputFormat: (process.env.HEX_OUTPUT_FORMAT || 'markdown') as HexConfig['outputFormat'],
+  renderMode: (process.env.HEX_DISPLAY_MODE || 'verbose') as HexConfig['renderMode'],
+  displayTimezone: process.env.HEX_DISPLAY_TIMEZONE || Intl.DateTimeFormat().resolvedOptions().timeZone,
+  ...(process.env.HEX_DISPLAY_LOCALE && { displayLocale: process.env.HEX_DISPLAY_LOCALE }),
+  dateFormat: (process.env.HEX_DATE_FORMAT || 'locale') as HexConfig['dateFormat'],
+  transport: (cliOption('transport') || process.env.HEX_TRANSPORT || 'stdio') as HexConfig['transport'],
+  httpHost: cliOption('host') || process.env.HEX_HTTP_HOST || '127.0.0.1',
+  httpPort: parseInt(cliOption('port') || process.env.HEX_HTTP_PORT || '3000', 10),
+  httpSessionIdleMs: parseInt(process.env.HEX_HTTP_SESSION_IDLE_TIMEOUT || '1800', 10) * 1000,
+  httpRequireClientToken: process.env.HEX_HTTP_REQUIRE_CLIENT_TOKEN === 'true',
+  httpAllowedOrigins: listEnv('HEX_HTTP_ALLOWED_ORIGINS'),
+  readOnly: process.env.HEX_READ_ONLY === 'true',
+  projectAllowlist: listEnv('HEX_PROJECT_ALLOWLIST'),
+  projectDenylist: listEnv('HEX_PROJECT_DENYLIST'),
+  maxRunsPerSession: parseInt(process.env.HEX_MAX_RUNS_PER_SESSION || '0', 10),
+  requireConfirmation: process.env.HEX_REQUIRE_CONFIRMATION === 'true',
+  auditEnabled: process.env.HEX_AUDIT_ENABLED !== 'false',
+  auditLogFile: process.env.HEX_AUDIT_LOG || join(homedir(), '.mcp-server-hex', 'audit.jsonl'),
+  auditMaxBytes: parseFloat(process.env.HEX_AUDIT_MAX_SIZE_MB || '10') * 1024 * 1024,
+  auditMaxFiles: parseInt(process.env.HEX_AUDIT_MAX_FILES || '30', 10),
 };
 
-export function validateConfig(): void {
-  if (!config.apiToken) {
+export function validateConfig(target: HexConfig = config): void {
+  if (!target.apiToken) {
     throw new Error(
       'HEX_API_TOKEN environment variable is required. ' +
       'Please set it in your .env file or environment variables.'
     );
   }
 
-  if (!config.baseUrl) {
+  if (!target.baseUrl) {
     throw new Error(
       'HEX_API_BASE_URL environment variable is required. ' +
       'Please set it in your .env file or environment variables.'
     );
   }
 
-  if (config.timeout < 1000) {
+  if (target.timeout < 1000) {
     throw new Error(
       'HEX_REQUEST_TIMEOUT must be at least 1000ms (1 second)'
     );
   }
-}
\ No newline at end of file
+
+  if (!(target.rateLimitPerMinute > 0) || !(target.rateLimitBurst >= 1)) {
+    throw new Error(
+      'HEX_RATE_LIMIT_PER_MINUTE must be positive and HEX_RATE_LIMIT_BURST at least 1'
+    );
+  }
+
+  if (!(target.maxRetries >= 0)) {
+    throw new Error(
+      'HEX_MAX_RETRIES must be zero or a positive integer'
+    );
+  }
+
+  if (
+    [target.cacheProjectListTtlMs, target.cacheProjectTtlMs, target.cacheCompletedRunTtlMs, target.cacheMaxEntries]
+      .some(value => !(value >= 0))
+  ) {
+    throw new Error(
+      'HEX_CACHE_* settings must be zero (disabled) or a positive integer'
+    );
+  }
+
+  if (!['markdown', 'json', 'both'].includes(target.outputFormat)) {
+    throw new Error(
+      'HEX_OUTPUT_FORMAT must be one of: markdown, json, both'
+    );
+  }
+
+  if (!['compact', 'verbose'].includes(target.renderMode)) {
+    throw new Error(
+      'HEX_DISPLAY_MODE must be one of: compact, verbose'
+    );
+  }
+
+  if (!isValidTimeZone(target.displayTimezone)) {
+    throw new Error(
+      `HEX_DISPLAY_TIMEZONE is not a valid IANA timezone: ${target.displayTimezone}`
+    );
+  }
+
+  if (!['locale', 'iso', 'relative'].includes(target.dateFormat)) {
+    throw new Error(
+      'HEX_DATE_FORMAT must be one of: locale, iso, relative'
+    );
+  }
+
+  if (!['stdio', 'http'].includes(target.transport)) {
+    throw new Error(
+      'HEX_TRANSPORT (or --transport) must be one of: stdio, http'
+    );
+  }
+
+  if (target.transport === 'http' && !(target.httpPort > 0 && target.httpPort < 65536)) {
+    throw new Error(
+      'HEX_HTTP_PORT (or --port) must be a port number between 1 and 65535'
+    );
+  }
+
+  if (!(target.httpSessionIdleMs > 0)) {
+    throw new Error(
+      'HEX_HTTP_SESSION_IDLE_TIMEOUT must be a positive number of seconds'
+    );
+  }
+
+  const badOrigin = target.httpAllowedOrigins.find(origin => !/^https?:\/\/[^/]+\/?$/.test(origin));
+  if (badOrigin) {
+    throw new Error(
+      `HEX_HTTP_ALLOWED_ORIGINS entries must be origins like https://app.example.com, got "${badOrigin}"`
+    );
+  }
+
+  const emptyRule = [...target.projectAllowlist, ...target.projectDenylist].find(entry => /^(tag|name):\s*$/.test(entry));
+  if (emptyRule) {
+    throw new Error(
+      `HEX_PROJECT_ALLOWLIST and HEX_PROJECT_DENYLIST entries need a value after "${emptyRule.trim()}"`
+    );
+  }
+
+  if (!(target.auditMaxBytes > 0) || !(target.auditMaxFiles >= 1)) {
+    throw new Error(
+      'HEX_AUDIT_MAX_SIZE_MB must be positive and HEX_AUDIT_MAX_FILES at least 1'
+    );
+  }
+
+  if (!(target.maxRunsPerSession >= 0)) {
+    throw new Error(
+      'HEX_MAX_RUNS_PER_SESSION must be zero (unlimited) or a positive integer'
+    );
+  }
+}
@@ -0,0 +1,86 @@
+export type DifferenceKind = 'added' | 'removed' | 'changed';
+
+export interface ValueDifference {
+  /** Location of the value, e.g. `metrics.revenue` or `rows[2].total`. */
+  path: string;
+  kind: DifferenceKind;
+  before?: unknown;
+  after?: unknown;
+  /** `after - before`, when both values are numbers. */
+  delta?: number;
+  /** Relative change in percent; omitted when `before` is 0. */
+  percentChange?: number;
+}
+
+export interface NumericChange {
+  delta: number;
+  percentChange?: number;
+}
+
+export function numericChange(before: number, after: number): NumericChange {
+  const delta = after - before;
+  return before === 0 ? { delta } : { delta, percentChange: (delta / Math.abs(before)) * 100 };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`;
+  }
+  if (IDENTIFIER.test(key)) {
+    return path ? `${path}.${key}` : key;
+  }
+  return `${path}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * Recursively compares two JSON-like values and lists every leaf that was
+ * added, removed or changed. Objects are compared by key and arrays by
+ * index; a value whose type changed is reported as a single change.
+ */
+export function deepDiff(before: unknown, after: unknown, path = ''): ValueDifference[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+    return keys.flatMap(key => {
+      const keyPath = childPath(path, key);
+      if (!(key in after)) {
+        return [{ path: keyPath, kind: 'removed' as const, before: before[key] }];
+      }
+      if (!(key in before)) {
+        return [{ path: keyPath, kind: 'added' as const, after: after[key] }];
+      }
+      return deepDiff(before[key], after[key], keyPath);
+    });
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const length = Math.max(before.length, after.length);
+    return Array.from({ length }, (_, index) => {
+      const indexPath = childPath(path, index);
+      if (index >= after.length) {
+        return [{ path: indexPath, kind: 'removed' as const, before: before[index] }];
+      }
+      if (index >= before.length) {
+        return [{ path: indexPath, kind: 'added' as const, after: after[index] }];
+      }
+      return deepDiff(before[index], after[index], indexPath);
+    }).flat();
+  }
+
+  if (Object.is(before, after) || JSON.stringify(before) === JSON.stringify(after)) {
+    return [];
+  }
+
+  return [{
+    path,
+    kind: 'changed',
+    before,
+    after,
+    ...(typeof before === 'number' && typeof after === 'number' && numericChange(before, after)),
+  }];
+}
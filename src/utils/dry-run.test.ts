@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import { ConfirmationTokens, estimateMakespan, formatDurationEstimate } from './dry-run.js';
+
+describe('ConfirmationTokens', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('accepts a token once, for the request it was issued for', () => {
+    const tokens = new ConfirmationTokens(false);
+    const { token } = tokens.issue('run', { projectId: 'p1', inputParams: { a: 1, b: 2 } });
+
+    // Key order doesn't change the request
+    expect(() => tokens.redeem(token, 'run', { inputParams: { b: 2, a: 1 }, projectId: 'p1' })).not.toThrow();
+    expect(() => tokens.redeem(token, 'run', { projectId: 'p1', inputParams: { a: 1, b: 2 } })).toThrow('invalid or has expired');
+  });
+
+  it('rejects a token used for a different request or action', () => {
+    const tokens = new ConfirmationTokens(false);
+    const { token } = tokens.issue('run', { projectId: 'p1' });
+
+    expect(() => tokens.redeem(token, 'run', { projectId: 'p2' })).toThrow('issued for a different request');
+    expect(() => tokens.redeem(token, 'cancel', { projectId: 'p1' })).toThrow('invalid or has expired');
+  });
+
+  it('rejects tokens issued by another session', () => {
+    const sessionA = new ConfirmationTokens(false);
+    const sessionB = new ConfirmationTokens(false);
+    const { token } = sessionA.issue('run', { projectId: 'p1' });
+
+    expect(() => sessionB.redeem(token, 'run', { projectId: 'p1' })).toThrow('invalid or has expired');
+    expect(() => sessionA.redeem(token, 'run', { projectId: 'p1' })).not.toThrow();
+  });
+
+  it('expires tokens after ten minutes', () => {
+    jest.useFakeTimers();
+    const tokens = new ConfirmationTokens(false);
+    const { token, expiresAt } = tokens.issue('run', { projectId: 'p1' });
+
+    expect(new Date(expiresAt).getTime()).toBe(Date.now() + 10 * 60 * 1000);
+    jest.advanceTimersByTime(10 * 60 * 1000);
+    expect(() => tokens.redeem(token, 'run', { projectId: 'p1' })).toThrow('invalid or has expired');
+  });
+
+  it('only requires a token when confirmation is required', () => {
+    expect(() => new ConfirmationTokens(false).redeem(undefined, 'run', {})).not.toThrow();
+    expect(() => new ConfirmationTokens(true).redeem(undefined, 'run', {})).toThrow('requires confirmation');
+  });
+});
+
+describe('estimateMakespan', () => {
+  it('fills the earliest free slot first', () => {
+    expect(estimateMakespan([10, 10, 10], 1)).toBe(30);
+    expect(estimateMakespan([10, 5, 5, 5], 2)).toBe(15);
+    expect(estimateMakespan([10], 0)).toBe(10);
+  });
+});
+
+describe('formatDurationEstimate', () => {
+  it('describes what the estimate is based on', () => {
+    expect(formatDurationEstimate({ basedOnRuns: 0 })).toBe('unknown (no successful runs to compare with)');
+    expect(formatDurationEstimate({ basedOnRuns: 1, medianMs: 60_000, p90Ms: 60_000 }))
+      .toMatch(/^~.+ \(median of the last 1 successful run\)$/);
+    expect(formatDurationEstimate({ basedOnRuns: 5, medianMs: 60_000, p90Ms: 120_000 }))
+      .toMatch(/\(median, p90 .+ of the last 5 successful runs\)$/);
+  });
+});
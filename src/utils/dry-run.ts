@@ -0,0 +1,158 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { HexAuth } from '../auth/hex-auth.js';
+import { config } from './config.js';
+import { formatDuration } from './format.js';
+import { getRunDurationMs, getRunHistory } from './hex-api.js';
+import { median, percentile } from './stats.js';
+
+/** Confirm tokens from a dry run stay valid this long. */
+const CONFIRM_TOKEN_TTL_MS = 10 * 60 * 1000;
+
+// Successful runs used to estimate a project's duration
+const ESTIMATE_HISTORY_RUNS = 20;
+
+export const DRY_RUN_PROPERTIES = {
+  dry_run: {
+    type: 'boolean',
+    description: 'Resolve the project, validate the request and estimate its duration from past runs without changing anything. Returns a confirm_token for the real call',
+    default: false,
+  },
+  confirm_token: {
+    type: 'string',
+    description: 'Token from a dry run of the same request; the call fails if the request has changed since. Required when the server sets HEX_REQUIRE_CONFIRMATION',
+  },
+};
+
+export interface DurationEstimate {
+  /** Successful runs the estimate is based on. */
+  basedOnRuns: number;
+  medianMs?: number;
+  p90Ms?: number;
+}
+
+interface PendingConfirmation {
+  action: string;
+  fingerprint: string;
+  expiresAt: number;
+}
+
+/** JSON with object keys sorted at every level, so equal requests always serialize the same way. */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Single-use tokens tying a mutation to the dry run that previewed it. A
+ * token is only accepted for the same action on an identical request, so
+ * the model can't preview one run and start another.
+ */
+export class ConfirmationTokens {
+  private pending = new Map<string, PendingConfirmation>();
+
+  constructor(private required: boolean = config.requireConfirmation) {}
+
+  issue(action: string, request: unknown): { token: string; expiresAt: string } {
+    this.dropExpired();
+
+    const token = randomBytes(16).toString('base64url');
+    const expiresAt = Date.now() + CONFIRM_TOKEN_TTL_MS;
+    this.pending.set(token, { action, fingerprint: this.fingerprint(request), expiresAt });
+
+    return { token, expiresAt: new Date(expiresAt).toISOString() };
+  }
+
+  /**
+   * Checks the `confirm_token` argument before a mutation, consuming it.
+   * Without a token this passes unless confirmation is required.
+   */
+  redeem(token: unknown, action: string, request: unknown): void {
+    if (token === undefined) {
+      if (this.required) {
+        throw new Error('This call requires confirmation (HEX_REQUIRE_CONFIRMATION). Call it with dry_run=true first, then pass the confirm_token it returns.');
+      }
+      return;
+    }
+
+    this.dropExpired();
+
+    const pending = typeof token === 'string' ? this.pending.get(token) : undefined;
+    if (!pending || pending.action !== action) {
+      throw new Error('confirm_token is invalid or has expired. Run the call with dry_run=true again to get a new one.');
+    }
+    if (pending.fingerprint !== this.fingerprint(request)) {
+      throw new Error('confirm_token was issued for a different request. Run the call with dry_run=true again to preview this one.');
+    }
+
+    this.pending.delete(token as string);
+  }
+
+  private fingerprint(request: unknown): string {
+    return createHash('sha256').update(canonicalJson(request)).digest('hex');
+  }
+
+  private dropExpired(): void {
+    const now = Date.now();
+    this.pending.forEach((pending, token) => {
+      if (pending.expiresAt <= now) {
+        this.pending.delete(token);
+      }
+    });
+  }
+}
+
+/** Estimates how long a run of the project will take from its recent successful runs. */
+export async function estimateRunDuration(auth: HexAuth, projectId: string): Promise<DurationEstimate> {
+  const runs = await getRunHistory(auth, projectId, { status: 'SUCCESS', maxRuns: ESTIMATE_HISTORY_RUNS });
+  const durations = runs
+    .map(getRunDurationMs)
+    .filter((duration): duration is number => duration !== undefined);
+
+  const estimate: DurationEstimate = { basedOnRuns: durations.length };
+  const medianMs = median(durations);
+  const p90Ms = percentile(durations, 90);
+
+  if (medianMs !== undefined) {
+    estimate.medianMs = medianMs;
+  }
+  if (p90Ms !== undefined) {
+    estimate.p90Ms = p90Ms;
+  }
+
+  return estimate;
+}
+
+/**
+ * Expected wall-clock time for runs of the given durations started through
+ * a pool of `concurrency` slots in order, as `runWithConcurrency` does.
+ */
+export function estimateMakespan(durations: number[], concurrency: number): number {
+  const slots = new Array<number>(Math.max(1, concurrency)).fill(0);
+
+  durations.forEach(duration => {
+    const next = slots.indexOf(Math.min(...slots));
+    slots[next] = (slots[next] as number) + duration;
+  });
+
+  return Math.max(...slots);
+}
+
+export function formatDurationEstimate(estimate: DurationEstimate): string {
+  if (estimate.medianMs === undefined) {
+    return 'unknown (no successful runs to compare with)';
+  }
+
+  let text = `~${formatDuration(estimate.medianMs)} (median`;
+  if (estimate.p90Ms !== undefined && estimate.p90Ms !== estimate.medianMs) {
+    text += `, p90 ${formatDuration(estimate.p90Ms)}`;
+  }
+  return `${text} of the last ${estimate.basedOnRuns} successful run${estimate.basedOnRuns !== 1 ? 's' : ''})`;
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from '@jest/globals';
+import { outputParamsToTables, toCsv } from './export.js';
+
+describe('outputParamsToTables', () => {
+  it('turns record arrays and columnar objects into tables and collects the rest', () => {
+    const tables = outputParamsToTables({
+      orders: [{ id: 1, total: 9.5 }, { id: 2, note: 'late' }],
+      regions: { name: ['EU', 'US'], revenue: [10, 20] },
+      total: 42,
+    });
+
+    expect(tables).toEqual([
+      { name: 'orders', columns: ['id', 'total', 'note'], rows: [{ id: 1, total: 9.5 }, { id: 2, note: 'late' }] },
+      { name: 'regions', columns: ['name', 'revenue'], rows: [{ name: 'EU', revenue: 10 }, { name: 'US', revenue: 20 }] },
+      { name: 'outputs', columns: ['parameter', 'value'], rows: [{ parameter: 'total', value: 42 }] },
+    ]);
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes cells containing separators, quotes or newlines', () => {
+    const csv = toCsv({
+      name: 't',
+      columns: ['text', 'data'],
+      rows: [{ text: 'a, "b"\nc', data: { nested: true } }, { text: null }],
+    });
+
+    expect(csv).toBe('text,data\n"a, ""b""\nc","{""nested"":true}"\n,\n');
+  });
+
+  it('prefixes text that spreadsheets would run as a formula', () => {
+    const csv = toCsv({
+      name: 't',
+      columns: ['=cmd', 'value'],
+      rows: [
+        { '=cmd': '=HYPERLINK("http://example.com")', value: '+1' },
+        { '=cmd': '-2+3', value: '@SUM(A1)' },
+        { '=cmd': '\tTab', value: 'plain' },
+      ],
+    });
+
+    expect(csv.split('\n')).toEqual([
+      "'=cmd,value",
+      `"'=HYPERLINK(""http://example.com"")",'+1`,
+      "'-2+3,'@SUM(A1)",
+      "'\tTab,plain",
+      '',
+    ]);
+  });
+
+  it('leaves negative numbers numeric', () => {
+    expect(toCsv({ name: 't', columns: ['delta'], rows: [{ delta: -5 }] })).toBe('delta\n-5\n');
+  });
+});
@@ -0,0 +1,246 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { parquetWriteBuffer } from 'hyparquet-writer';
+import writeXlsxFile from 'write-excel-file/node';
+import type { SheetData } from 'write-excel-file/node';
+
+export type ExportFormat = 'csv' | 'json' | 'parquet' | 'excel';
+
+export interface ExportTable {
+  name: string;
+  columns: string[];
+  rows: Array<Record<string, unknown>>;
+}
+
+export interface ExportedFile {
+  path: string;
+  table?: string;
+  rows?: number;
+}
+
+export interface ExportOptions {
+  directory: string;
+  /** File name without extension; tables written to separate files get a `_<table>` suffix. */
+  baseName: string;
+  format: ExportFormat;
+  metadata?: Record<string, unknown>;
+}
+
+const SCALARS_TABLE = 'outputs';
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function columnsOf(rows: Array<Record<string, unknown>>): string[] {
+  const columns = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(key => columns.add(key)));
+  return [...columns];
+}
+
+/** Recognizes `{ column: [values...] }` shaped outputs where every column has the same length. */
+function asColumnar(value: Record<string, unknown>): Array<Record<string, unknown>> | undefined {
+  const columns = Object.entries(value);
+  if (columns.length === 0 || !columns.every(([, values]) => Array.isArray(values))) {
+    return undefined;
+  }
+
+  const length = (columns[0]?.[1] as unknown[]).length;
+  if (!columns.every(([, values]) => (values as unknown[]).length === length)) {
+    return undefined;
+  }
+
+  return Array.from({ length }, (_, index) =>
+    Object.fromEntries(columns.map(([name, values]) => [name, (values as unknown[])[index]]))
+  );
+}
+
+/**
+ * Splits run output parameters into tables. Arrays of records and columnar
+ * objects become their own tables; everything else is collected into a single
+ * name/value `outputs` table.
+ */
+export function outputParamsToTables(outputParams: Record<string, unknown>): ExportTable[] {
+  const tables: ExportTable[] = [];
+  const scalars: Array<Record<string, unknown>> = [];
+
+  Object.entries(outputParams).forEach(([name, value]) => {
+    let rows: Array<Record<string, unknown>> | undefined;
+
+    if (Array.isArray(value) && value.length > 0 && value.every(isRecord)) {
+      rows = value;
+    } else if (Array.isArray(value) && value.length > 0 && value.every(item => !isRecord(item) && !Array.isArray(item))) {
+      rows = value.map(item => ({ value: item }));
+    } else if (isRecord(value)) {
+      rows = asColumnar(value);
+    }
+
+    if (rows) {
+      tables.push({ name, columns: columnsOf(rows), rows });
+    } else {
+      scalars.push({ parameter: name, value });
+    }
+  });
+
+  if (scalars.length > 0) {
+    tables.push({ name: SCALARS_TABLE, columns: ['parameter', 'value'], rows: scalars });
+  }
+
+  return tables;
+}
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+/**
+ * Text for a CSV cell. Text starting with a character spreadsheets read as a
+ * formula is prefixed with `'`, so opening the file can't run it; numbers
+ * are left alone so negative values stay numeric.
+ */
+function csvCellText(value: unknown): string {
+  const text = cellText(value);
+  return typeof value !== 'number' && /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+}
+
+export function toCsv(table: ExportTable): string {
+  const escape = (text: string) => /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  const lines = [table.columns.map(column => escape(csvCellText(column))).join(',')];
+  table.rows.forEach(row => {
+    lines.push(table.columns.map(column => escape(csvCellText(row[column]))).join(','));
+  });
+  return lines.join('\n') + '\n';
+}
+
+function toParquet(table: ExportTable, metadata?: Record<string, unknown>): ArrayBuffer {
+  const columnData = table.columns.map(column => {
+    const values = table.rows.map(row => row[column]);
+    const present = values.filter(value => value !== null && value !== undefined);
+
+    if (present.length > 0 && present.every(value => typeof value === 'boolean')) {
+      return { name: column, data: values.map(value => value ?? null), type: 'BOOLEAN' as const };
+    }
+    if (present.length > 0 && present.every(value => typeof value === 'number')) {
+      return { name: column, data: values.map(value => value ?? null), type: 'DOUBLE' as const };
+    }
+    return {
+      name: column,
+      data: values.map(value => value === null || value === undefined ? null : cellText(value)),
+      type: 'STRING' as const,
+    };
+  });
+
+  return parquetWriteBuffer({
+    columnData,
+    ...(metadata && { kvMetadata: [{ key: 'hex.metadata', value: JSON.stringify(metadata) }] }),
+  });
+}
+
+function toSheetData(table: ExportTable): SheetData {
+  const header = table.columns.map(column => ({ value: column, fontWeight: 'bold' as const }));
+  const rows = table.rows.map(row => table.columns.map(column => {
+    const value = row[column];
+    if (value === null || value === undefined) {
+      return null;
+    }
+    if (typeof value === 'number' || typeof value === 'boolean' || value instanceof Date) {
+      return { value };
+    }
+    return { value: cellText(value) };
+  }));
+  return [header, ...rows];
+}
+
+function safeFileName(name: string): string {
+  return name.replace(/[^A-Za-z0-9._-]+/g, '_').slice(0, 100);
+}
+
+// Excel limits sheet names to 31 characters and forbids a few punctuation marks
+function safeSheetName(name: string, used: Set<string>): string {
+  const base = name.replace(/[\\/?*[\]:]/g, '_').slice(0, 28) || 'Sheet';
+  let candidate = base;
+  for (let suffix = 2; used.has(candidate.toLowerCase()); suffix++) {
+    candidate = `${base}_${suffix}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+/**
+ * Writes `tables` to `options.directory` in the requested format. JSON and
+ * Excel produce a single file; CSV and Parquet produce one file per table,
+ * with CSV metadata going to a `.metadata.json` sidecar.
+ */
+export async function exportTables(tables: ExportTable[], options: ExportOptions): Promise<ExportedFile[]> {
+  await mkdir(options.directory, { recursive: true });
+  const basePath = join(options.directory, safeFileName(options.baseName));
+  const tablePath = (table: ExportTable, extension: string) =>
+    tables.length === 1 ? `${basePath}.${extension}` : `${basePath}_${safeFileName(table.name)}.${extension}`;
+
+  const files: ExportedFile[] = [];
+
+  switch (options.format) {
+    case 'json': {
+      const path = `${basePath}.json`;
+      const document = {
+        ...(options.metadata && { metadata: options.metadata }),
+        tables: Object.fromEntries(tables.map(table => [table.name, table.rows])),
+      };
+      await writeFile(path, JSON.stringify(document, null, 2), 'utf8');
+      files.push({ path });
+      break;
+    }
+    case 'csv': {
+      for (const table of tables) {
+        const path = tablePath(table, 'csv');
+        await writeFile(path, toCsv(table), 'utf8');
+        files.push({ path, table: table.name, rows: table.rows.length });
+      }
+      if (options.metadata) {
+        const path = `${basePath}.metadata.json`;
+        await writeFile(path, JSON.stringify(options.metadata, null, 2), 'utf8');
+        files.push({ path });
+      }
+      break;
+    }
+    case 'parquet': {
+      for (const table of tables) {
+        const path = tablePath(table, 'parquet');
+        await writeFile(path, Buffer.from(toParquet(table, options.metadata)));
+        files.push({ path, table: table.name, rows: table.rows.length });
+      }
+      break;
+    }
+    case 'excel': {
+      const path = `${basePath}.xlsx`;
+      const usedNames = new Set<string>();
+      const sheets = tables.map(table => ({ data: toSheetData(table), sheet: safeSheetName(table.name, usedNames) }));
+
+      if (options.metadata) {
+        sheets.push({
+          data: toSheetData({
+            name: 'metadata',
+            columns: ['field', 'value'],
+            rows: Object.entries(options.metadata).map(([field, value]) => ({ field, value })),
+          }),
+          sheet: safeSheetName('metadata', usedNames),
+        });
+      }
+
+      await writeXlsxFile(sheets).toFile(path);
+      files.push({ path });
+      break;
+    }
+  }
+
+  return files;
+}
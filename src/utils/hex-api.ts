@@ -0,0 +1,225 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { recordRunEvent } from '../audit/audit-log.js';
+import { HexAuth } from '../auth/hex-auth.js';
+import {
+  HexProject,
+  HexProjectListResponse,
+  HexProjectRun,
+  HexProjectRunListResponse,
+  HexRunProjectRequest,
+  HexRunProjectResponse,
+  HexRunStatus,
+} from '../types/index.js';
+import { sleep } from './concurrency.js';
+import { logger } from './logger.js';
+
+// Runs started by the operation inside `countRunsStarted`, however deep in the tools they start
+const runCounter = new AsyncLocalStorage<{ started: number }>();
+
+export const TERMINAL_RUN_STATUSES: HexRunStatus[] = ['SUCCESS', 'ERROR', 'CANCELLED'];
+
+export function isTerminalRunStatus(status: HexRunStatus): boolean {
+  return TERMINAL_RUN_STATUSES.includes(status);
+}
+
+export async function getAllProjects(auth: HexAuth): Promise<HexProject[]> {
+  const allProjects: HexProject[] = [];
+  let after: string | undefined;
+
+  do {
+    const response = await auth.makeRequest<HexProjectListResponse>('/projects', {
+      method: 'GET',
+      params: {
+        limit: 100,
+        ...(after && { after }),
+      },
+    });
+
+    if (auth.isApiError(response)) {
+      throw new Error(response.error.message);
+    }
+
+    allProjects.push(...(response.projects || []));
+    after = response.hasMore ? response.nextCursor : undefined;
+  } while (after);
+
+  return allProjects;
+}
+
+export async function getProject(auth: HexAuth, projectId: string): Promise<HexProject> {
+  const response = await auth.makeRequest<HexProject>(`/projects/${projectId}`, {
+    method: 'GET',
+  });
+
+  if (auth.isApiError(response)) {
+    throw new Error(response.error.message);
+  }
+
+  return response;
+}
+
+export interface RunHistoryOptions {
+  /** Stop paging once runs started before this time are reached. */
+  since?: Date;
+  status?: HexRunStatus;
+  /** Upper bound on runs fetched per project, to keep large histories in check. */
+  maxRuns?: number;
+  /** Called when matching runs beyond `maxRuns` were left out. */
+  onTruncated?: () => void;
+}
+
+/**
+ * Pages through `/projects/{id}/runs` (newest first) and returns the runs that
+ * match `options`.
+ */
+export async function getRunHistory(
+  auth: HexAuth,
+  projectId: string,
+  options: RunHistoryOptions = {}
+): Promise<HexProjectRun[]> {
+  const history: HexProjectRun[] = [];
+  const { since, status } = options;
+  const maxRuns = options.maxRuns ?? 1000;
+  let after: string | undefined;
+
+  do {
+    const response = await auth.makeRequest<HexProjectRunListResponse>(`/projects/${projectId}/runs`, {
+      method: 'GET',
+      params: {
+        limit: 100,
+        ...(status && { status }),
+        ...(after && { after }),
+      },
+    });
+
+    if (auth.isApiError(response)) {
+      throw new Error(response.error.message);
+    }
+
+    const runs = response.runs || [];
+    const inRange = since ? runs.filter(run => new Date(run.startedAt) >= since) : runs;
+
+    history.push(...inRange);
+
+    const reachedStart = inRange.length < runs.length || !response.hasMore;
+    if (history.length > maxRuns || (history.length === maxRuns && !reachedStart)) {
+      options.onTruncated?.();
+      break;
+    }
+
+    if (reachedStart) {
+      break;
+    }
+
+    after = response.nextCursor;
+  } while (after);
+
+  return history.slice(0, maxRuns);
+}
+
+/** Runs `operation`, adding each run it starts through `triggerRun` to `counter.started`. */
+export function countRunsStarted<T>(counter: { started: number }, operation: () => Promise<T>): Promise<T> {
+  return runCounter.run(counter, operation);
+}
+
+export async function triggerRun(
+  auth: HexAuth,
+  request: HexRunProjectRequest
+): Promise<HexRunProjectResponse> {
+  logger.debug('Running project:', request.projectId);
+
+  const response = await auth.makeRequest<HexRunProjectResponse>(`/projects/${request.projectId}/runs`, {
+    method: 'POST',
+    body: request,
+  });
+
+  if (auth.isApiError(response)) {
+    throw new Error(response.error.message);
+  }
+
+  const counter = runCounter.getStore();
+  if (counter) {
+    counter.started++;
+  }
+
+  recordRunEvent({ action: 'started', projectId: request.projectId, runId: response.runId });
+  return response;
+}
+
+export async function getRun(auth: HexAuth, projectId: string, runId: string): Promise<HexProjectRun> {
+  const response = await auth.makeRequest<HexProjectRun>(`/projects/${projectId}/runs/${runId}`, {
+    method: 'GET',
+  });
+
+  if (auth.isApiError(response)) {
+    throw new Error(response.error.message);
+  }
+
+  return response;
+}
+
+export interface WaitForRunOptions {
+  /** Give up after this long and return the last observed run. */
+  timeoutMs: number;
+  /** Delay before the first poll; doubles after each poll up to `maxIntervalMs`. */
+  initialIntervalMs?: number;
+  maxIntervalMs?: number;
+  onUpdate?: (run: HexProjectRun) => void;
+  signal?: AbortSignal;
+}
+
+export interface WaitForRunResult {
+  run: HexProjectRun;
+  timedOut: boolean;
+}
+
+/**
+ * Polls a run with exponential backoff until it reaches a terminal status or
+ * the timeout elapses. Every poll goes through `makeRequest`, so waiting on many
+ * runs at once stays within the shared rate limit.
+ */
+export async function waitForRun(
+  auth: HexAuth,
+  projectId: string,
+  runId: string,
+  options: WaitForRunOptions
+): Promise<WaitForRunResult> {
+  const deadline = Date.now() + options.timeoutMs;
+  const maxIntervalMs = options.maxIntervalMs ?? 30_000;
+  let intervalMs = options.initialIntervalMs ?? 2_000;
+
+  for (;;) {
+    const remainingMs = deadline - Date.now();
+    await sleep(Math.max(0, Math.min(intervalMs, remainingMs)));
+
+    if (options.signal?.aborted) {
+      throw new Error(`Stopped waiting for run ${runId}: request was cancelled`);
+    }
+
+    const run = await getRun(auth, projectId, runId);
+    options.onUpdate?.(run);
+
+    if (isTerminalRunStatus(run.status)) {
+      return { run, timedOut: false };
+    }
+
+    if (Date.now() >= deadline) {
+      return { run, timedOut: true };
+    }
+
+    intervalMs = Math.min(intervalMs * 2, maxIntervalMs);
+  }
+}
+
+/** Execution time in milliseconds, derived from timestamps when the API omits it. */
+export function getRunDurationMs(run: HexProjectRun): number | undefined {
+  if (typeof run.executionTime === 'number') {
+    return run.executionTime;
+  }
+
+  if (run.completedAt) {
+    return new Date(run.completedAt).getTime() - new Date(run.startedAt).getTime();
+  }
+
+  return undefined;
+}
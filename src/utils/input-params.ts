@@ -0,0 +1,172 @@
+import { HexAuth } from '../auth/hex-auth.js';
+import { HexProjectRun } from '../types/index.js';
+import { getRunHistory } from './hex-api.js';
+import { logger } from './logger.js';
+import { editDistance } from './search.js';
+
+export type InputValueType = 'string' | 'number' | 'boolean' | 'array' | 'object' | 'null';
+
+export interface InputParamProfile {
+  name: string;
+  /** Number of analyzed runs that passed this parameter. */
+  runsSeen: number;
+  /** Share of analyzed runs that passed this parameter (0-1). */
+  frequency: number;
+  types: InputValueType[];
+  examples: unknown[];
+  lastValue: unknown;
+}
+
+export interface InputParamsProfile {
+  runsAnalyzed: number;
+  inputs: InputParamProfile[];
+}
+
+export interface InputParamsValidation {
+  warnings: string[];
+  runsAnalyzed: number;
+}
+
+export const DEFAULT_INPUT_HISTORY_RUNS = 50;
+
+const MAX_EXAMPLES = 5;
+// Parameters passed in at least this share of past runs are flagged when missing
+const COMMON_PARAM_FREQUENCY = 0.8;
+
+export function inputValueType(value: unknown): InputValueType {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  const type = typeof value;
+  return type === 'string' || type === 'number' || type === 'boolean' ? type : 'object';
+}
+
+/**
+ * Derives the input parameters a project expects from the `inputParams` of
+ * past runs. The Hex API doesn't expose input definitions, so this reflects
+ * how the project has actually been run. `runs` is newest first.
+ */
+export function inferInputParams(runs: HexProjectRun[]): InputParamsProfile {
+  const profiles = new Map<string, InputParamProfile>();
+  const seenExamples = new Map<string, Set<string>>();
+
+  runs.forEach(run => {
+    Object.entries(run.inputParams || {}).forEach(([name, value]) => {
+      let profile = profiles.get(name);
+      if (!profile) {
+        profile = { name, runsSeen: 0, frequency: 0, types: [], examples: [], lastValue: value };
+        profiles.set(name, profile);
+        seenExamples.set(name, new Set());
+      }
+
+      profile.runsSeen++;
+
+      const type = inputValueType(value);
+      if (!profile.types.includes(type)) {
+        profile.types.push(type);
+      }
+
+      const examples = seenExamples.get(name) as Set<string>;
+      const key = JSON.stringify(value);
+      if (examples.size < MAX_EXAMPLES && !examples.has(key)) {
+        examples.add(key);
+        profile.examples.push(value);
+      }
+    });
+  });
+
+  const inputs = [...profiles.values()]
+    .map(profile => ({ ...profile, frequency: runs.length > 0 ? profile.runsSeen / runs.length : 0 }))
+    .sort((a, b) => b.runsSeen - a.runsSeen || a.name.localeCompare(b.name));
+
+  return { runsAnalyzed: runs.length, inputs };
+}
+
+export async function getProjectInputParams(
+  auth: HexAuth,
+  projectId: string,
+  maxRuns = DEFAULT_INPUT_HISTORY_RUNS
+): Promise<InputParamsProfile> {
+  const runs = await getRunHistory(auth, projectId, { maxRuns });
+  return inferInputParams(runs);
+}
+
+/** Compares `params` with how the project has been run before and describes anything suspicious. */
+export function validateInputParams(params: Record<string, unknown>, profile: InputParamsProfile): string[] {
+  if (profile.runsAnalyzed === 0) {
+    return [];
+  }
+
+  const warnings: string[] = [];
+  const known = new Map(profile.inputs.map(input => [input.name, input]));
+
+  Object.entries(params).forEach(([name, value]) => {
+    const input = known.get(name);
+    if (!input) {
+      const suggestion = profile.inputs
+        .map(candidate => ({
+          name: candidate.name,
+          distance: editDistance(name.toLowerCase(), candidate.name.toLowerCase(), 3),
+        }))
+        .filter(candidate => candidate.distance <= Math.min(3, Math.max(1, Math.floor(name.length / 3))))
+        .sort((a, b) => a.distance - b.distance)[0];
+
+      warnings.push(
+        `Unknown input "${name}": not used in the last ${profile.runsAnalyzed} runs` +
+        (suggestion ? `. Did you mean "${suggestion.name}"?` : '')
+      );
+      return;
+    }
+
+    const type = inputValueType(value);
+    if (type !== 'null' && !input.types.includes(type)) {
+      warnings.push(
+        `Input "${name}" is a ${type} but past runs passed ${input.types.join(' or ')} ` +
+        `(e.g. ${JSON.stringify(input.examples[0])})`
+      );
+    }
+  });
+
+  profile.inputs
+    .filter(input => input.frequency >= COMMON_PARAM_FREQUENCY && !(input.name in params))
+    .forEach(input => {
+      warnings.push(
+        `Missing input "${input.name}": passed in ${Math.round(input.frequency * 100)}% of recent runs ` +
+        `(last value ${JSON.stringify(input.lastValue)}); the project default will be used`
+      );
+    });
+
+  return warnings;
+}
+
+/**
+ * Fetches recent run history and validates `params` against it. History
+ * failures are logged and treated as "nothing to compare against" so they
+ * never block a run.
+ */
+export async function checkInputParams(
+  auth: HexAuth,
+  projectId: string,
+  params: Record<string, unknown>
+): Promise<InputParamsValidation> {
+  return checkInputParamSets(auth, projectId, [params]);
+}
+
+/** Like `checkInputParams` for several runs of one project; history is fetched once and repeated warnings are merged. */
+export async function checkInputParamSets(
+  auth: HexAuth,
+  projectId: string,
+  paramSets: Record<string, unknown>[]
+): Promise<InputParamsValidation> {
+  try {
+    const profile = await getProjectInputParams(auth, projectId);
+    const warnings = paramSets.flatMap(params => validateInputParams(params, profile));
+    return { warnings: [...new Set(warnings)], runsAnalyzed: profile.runsAnalyzed };
+  } catch (error) {
+    logger.warn(`Could not load run history to validate inputs for ${projectId}:`, error);
+    return { warnings: [], runsAnalyzed: 0 };
+  }
+}
@@ -0,0 +1,58 @@
+import { CallToolResult, Tool } from '@modelcontextprotocol/sdk/types.js';
+import { config } from './config.js';
+import { RENDER_MODES } from './render.js';
+
+export type OutputFormat = 'markdown' | 'json' | 'both';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['markdown', 'json', 'both'];
+
+export function isOutputFormat(value: unknown): value is OutputFormat {
+  return OUTPUT_FORMATS.includes(value as OutputFormat);
+}
+
+/** Adds the shared `output_format` and `detail` arguments to a tool's input schema. */
+export function withOutputOptions(tool: Tool): Tool {
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...tool.inputSchema.properties,
+        output_format: {
+          type: 'string',
+          enum: OUTPUT_FORMATS,
+          description: `Response format: markdown text, JSON data, or both (default: ${config.outputFormat})`,
+        },
+        detail: {
+          type: 'string',
+          enum: RENDER_MODES,
+          description: `Markdown detail level: compact tables and one-line summaries, or verbose blocks (default: ${config.renderMode})`,
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Builds a tool result in the format requested by `args.output_format` (or
+ * HEX_OUTPUT_FORMAT). JSON output is returned as `structuredContent` and, for
+ * clients that only read `content`, as a JSON text block.
+ */
+export function toolResult(args: Record<string, unknown>, markdown: string, data: unknown): CallToolResult {
+  const format = args.output_format ?? config.outputFormat;
+  if (!isOutputFormat(format)) {
+    throw new Error(`Invalid output_format: ${String(format)}. Use one of: ${OUTPUT_FORMATS.join(', ')}`);
+  }
+
+  if (format === 'markdown') {
+    return {
+      content: [{ type: 'text', text: markdown }],
+    };
+  }
+
+  const json = { type: 'text' as const, text: JSON.stringify(data, null, 2) };
+  return {
+    content: format === 'both' ? [{ type: 'text', text: markdown }, json] : [json],
+    structuredContent: data,
+  };
+}
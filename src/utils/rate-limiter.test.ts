@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { RateLimiter } from './rate-limiter.js';
+
+/** Follows an acquisition so a test can check whether it has completed yet. */
+function track(promise: Promise<void>): { done: boolean } {
+  const state = { done: false };
+  void promise.then(() => {
+    state.done = true;
+  });
+  return state;
+}
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('lets a burst through immediately, then spaces requests at the refill rate', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 60, burst: 2 });
+
+    const first = track(limiter.acquire());
+    const second = track(limiter.acquire());
+    const third = track(limiter.acquire());
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect([first.done, second.done, third.done]).toEqual([true, true, false]);
+
+    await jest.advanceTimersByTimeAsync(999);
+    expect(third.done).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(third.done).toBe(true);
+  });
+
+  it('refills up to the burst size while idle', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 60, burst: 2 });
+    await limiter.acquire();
+    await limiter.acquire();
+
+    await jest.advanceTimersByTimeAsync(10_000);
+
+    const acquired = [track(limiter.acquire()), track(limiter.acquire()), track(limiter.acquire())];
+    await jest.advanceTimersByTimeAsync(0);
+    expect(acquired.map(state => state.done)).toEqual([true, true, false]);
+  });
+
+  it('serves waiters in the order they arrived', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 60, burst: 1 });
+    const order: number[] = [];
+
+    const waiters = [1, 2, 3].map(id => limiter.acquire().then(() => {
+      order.push(id);
+    }));
+    await jest.advanceTimersByTimeAsync(2_000);
+    await Promise.all(waiters);
+
+    expect(order).toEqual([1, 2, 3]);
+  });
+
+  it('holds every waiter back while paused', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 6_000, burst: 10 });
+    limiter.pause(5_000);
+
+    const acquired = track(limiter.acquire());
+    await jest.advanceTimersByTimeAsync(4_999);
+    expect(acquired.done).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(acquired.done).toBe(true);
+  });
+});
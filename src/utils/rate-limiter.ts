@@ -0,0 +1,61 @@
+import { sleep } from './concurrency.js';
+
+export interface RateLimiterOptions {
+  requestsPerMinute: number;
+  burst: number;
+}
+
+/**
+ * Token bucket limiter. Callers await `acquire()` before each request; tokens
+ * refill continuously at `requestsPerMinute` and at most `burst` can accumulate.
+ * Waiters are served in FIFO order so concurrent tools share the budget fairly.
+ */
+export class RateLimiter {
+  private tokens: number;
+  private lastRefill: number;
+  private queue: Promise<void> = Promise.resolve();
+  private pausedUntil = 0;
+  private readonly msPerToken: number;
+
+  constructor(private options: RateLimiterOptions) {
+    this.tokens = options.burst;
+    this.lastRefill = Date.now();
+    this.msPerToken = 60_000 / options.requestsPerMinute;
+  }
+
+  acquire(): Promise<void> {
+    const next = this.queue.then(() => this.take());
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  /** Blocks every waiter for `ms`, e.g. after the server answers 429 with Retry-After. */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.tokens = Math.min(this.tokens, 0);
+  }
+
+  private async take(): Promise<void> {
+    const pausedFor = this.pausedUntil - Date.now();
+    if (pausedFor > 0) {
+      await sleep(pausedFor);
+    }
+
+    this.refill();
+
+    if (this.tokens < 1) {
+      const waitMs = Math.ceil((1 - this.tokens) * this.msPerToken);
+      await sleep(waitMs);
+      this.refill();
+    }
+
+    this.tokens -= 1;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = now - this.lastRefill;
+    this.tokens = Math.min(this.options.burst, this.tokens + elapsed / this.msPerToken);
+    this.lastRefill = now;
+  }
+}
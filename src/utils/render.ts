@@ -0,0 +1,269 @@
+import { HexProject, HexProjectRun, HexRunStatus } from '../types/index.js';
+import { config } from './config.js';
+import { formatDuration } from './format.js';
+import { getZonedParts } from './timezone.js';
+
+export type RenderMode = 'compact' | 'verbose';
+export type DateFormat = 'locale' | 'iso' | 'relative';
+
+export const RENDER_MODES: RenderMode[] = ['compact', 'verbose'];
+
+export interface RenderOptions {
+  mode: RenderMode;
+  timeZone: string;
+  locale?: string;
+  dateFormat: DateFormat;
+}
+
+export const STATUS_EMOJI: Record<HexRunStatus, string> = {
+  SUCCESS: '✅',
+  ERROR: '❌',
+  CANCELLED: '🛑',
+  RUNNING: '⏳',
+  PENDING: '⏱️',
+};
+
+export function statusEmoji(status: string): string {
+  return STATUS_EMOJI[status as HexRunStatus] || '❓';
+}
+
+/** Render settings from the HEX_DISPLAY_* config, overridden by a tool call's `detail` argument. */
+export function getRenderOptions(args: Record<string, unknown> = {}): RenderOptions {
+  const mode = args.detail === 'compact' || args.detail === 'verbose' ? args.detail : config.renderMode;
+  return {
+    mode,
+    timeZone: config.displayTimezone,
+    ...(config.displayLocale && { locale: config.displayLocale }),
+    dateFormat: config.dateFormat,
+  };
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export function formatDate(value: string | Date | undefined, options: RenderOptions = getRenderOptions()): string {
+  if (value === undefined) {
+    return '-';
+  }
+
+  const date = value instanceof Date ? value : new Date(value);
+  if (isNaN(date.getTime())) {
+    return String(value);
+  }
+
+  switch (options.dateFormat) {
+    case 'iso': {
+      const parts = getZonedParts(date, options.timeZone);
+      return `${parts.year}-${pad(parts.month)}-${pad(parts.day)} ${pad(parts.hour)}:${pad(parts.minute)} ${options.timeZone}`;
+    }
+    case 'relative': {
+      const elapsed = Date.now() - date.getTime();
+      return elapsed >= 0 ? `${formatDuration(elapsed)} ago` : `in ${formatDuration(-elapsed)}`;
+    }
+    default:
+      return date.toLocaleString(options.locale, { timeZone: options.timeZone, timeZoneName: 'short' });
+  }
+}
+
+function escapeCell(value: unknown): string {
+  return String(value ?? '').replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+export function markdownTable(headers: string[], rows: unknown[][]): string {
+  let table = `| ${headers.map(escapeCell).join(' | ')} |\n`;
+  table += `|${headers.map(() => '---').join('|')}|\n`;
+  rows.forEach(row => {
+    table += `| ${row.map(escapeCell).join(' | ')} |\n`;
+  });
+  return table;
+}
+
+function runDuration(run: HexProjectRun): string {
+  if (run.executionTime) {
+    return formatDuration(run.executionTime);
+  }
+  if (run.completedAt) {
+    return formatDuration(new Date(run.completedAt).getTime() - new Date(run.startedAt).getTime());
+  }
+  return '-';
+}
+
+/** Full project details, or a single line in compact mode. */
+export function renderProject(project: HexProject, options: RenderOptions = getRenderOptions()): string {
+  if (options.mode === 'compact') {
+    return `**${project.name}** (${project.projectId}) - ${project.status}, ${project.visibility}, ` +
+      `by ${project.author.name}, updated ${formatDate(project.updatedAt, options)}\n`;
+  }
+
+  let content = `# ${project.name}\n\n`;
+  content += `**Project ID:** ${project.projectId}\n`;
+  content += `**Status:** ${project.status}\n`;
+  content += `**Visibility:** ${project.visibility}\n`;
+  content += `**Author:** ${project.author.name} (${project.author.email})\n`;
+  content += `**Workspace:** ${project.workspace.name}\n`;
+  content += `**Created:** ${formatDate(project.createdAt, options)}\n`;
+  content += `**Updated:** ${formatDate(project.updatedAt, options)}\n`;
+
+  if (project.description) {
+    content += `\n**Description:**\n${project.description}\n`;
+  }
+
+  if (project.tags && project.tags.length > 0) {
+    content += `\n**Tags:** ${project.tags.join(', ')}\n`;
+  }
+
+  return content;
+}
+
+export interface ProjectListItem {
+  project: HexProject;
+  /** Extra per-project details, e.g. a search relevance score. */
+  details?: Record<string, string>;
+}
+
+/**
+ * Numbered project blocks in verbose mode, or a markdown table in compact
+ * mode. `startIndex` keeps numbering continuous across pages.
+ */
+export function renderProjectList(
+  items: ProjectListItem[],
+  options: RenderOptions = getRenderOptions(),
+  startIndex = 0
+): string {
+  if (options.mode === 'compact') {
+    const detailColumns = [...new Set(items.flatMap(item => Object.keys(item.details || {})))];
+    return markdownTable(
+      ['#', 'Project', 'ID', ...detailColumns, 'Status', 'Author', 'Updated', 'Tags'],
+      items.map(({ project, details }, index) => [
+        startIndex + index + 1,
+        project.name,
+        project.projectId,
+        ...detailColumns.map(column => details?.[column] ?? ''),
+        project.status,
+        project.author.name,
+        formatDate(project.updatedAt, options),
+        (project.tags || []).join(', '),
+      ])
+    );
+  }
+
+  let content = '';
+  items.forEach(({ project, details }, index) => {
+    content += `${startIndex + index + 1}. **${project.name}** (${project.projectId})\n`;
+    Object.entries(details || {}).forEach(([label, value]) => {
+      content += `   ${label}: ${value}\n`;
+    });
+    content += `   Status: ${project.status} | Visibility: ${project.visibility}\n`;
+    content += `   Author: ${project.author.name} (${project.author.email})\n`;
+    content += `   Updated: ${formatDate(project.updatedAt, options)}\n`;
+    if (project.description) {
+      content += `   Description: ${project.description}\n`;
+    }
+    if (project.tags && project.tags.length > 0) {
+      content += `   Tags: ${project.tags.join(', ')}\n`;
+    }
+    content += '\n';
+  });
+  return content;
+}
+
+/** Status, timing, parameters and outcome of a single run. Compact mode omits parameter blocks. */
+export function renderRun(run: HexProjectRun, options: RenderOptions = getRenderOptions()): string {
+  if (options.mode === 'compact') {
+    let content = `${statusEmoji(run.status)} **${run.status}** - run ${run.runId} of ${run.projectId}, `;
+    content += `started ${formatDate(run.startedAt, options)}`;
+    content += run.completedAt ? `, took ${runDuration(run)}\n` : '\n';
+    if (run.status === 'ERROR') {
+      content += `Error: ${run.errorMessage || 'Unknown error'}\n`;
+    }
+    if (run.status === 'SUCCESS' && run.outputParams) {
+      content += `Outputs: ${Object.keys(run.outputParams).join(', ')}\n`;
+    }
+    return content;
+  }
+
+  let content = `**Project ID:** ${run.projectId}\n`;
+  content += `**Run ID:** ${run.runId}\n`;
+  content += `**Status:** ${run.status}\n`;
+  content += `**Started At:** ${formatDate(run.startedAt, options)}\n`;
+
+  if (run.completedAt) {
+    content += `**Completed At:** ${formatDate(run.completedAt, options)}\n`;
+  }
+
+  if (run.executionTime) {
+    content += `**Execution Time:** ${formatDuration(run.executionTime)}\n`;
+  }
+
+  if (run.triggeredBy) {
+    content += `**Triggered By:** ${run.triggeredBy.name} (${run.triggeredBy.email})\n`;
+  }
+  content += '\n';
+
+  if (run.status === 'SUCCESS') {
+    content += `${STATUS_EMOJI.SUCCESS} **Run completed successfully!**\n`;
+    if (run.outputParams) {
+      content += `\n**Output Parameters:**\n\`\`\`json\n${JSON.stringify(run.outputParams, null, 2)}\n\`\`\`\n`;
+    }
+  } else if (run.status === 'ERROR') {
+    content += `${STATUS_EMOJI.ERROR} **Run failed with error:**\n${run.errorMessage || 'Unknown error'}\n`;
+  } else if (run.status === 'CANCELLED') {
+    content += `${STATUS_EMOJI.CANCELLED} **Run was cancelled**\n`;
+  } else if (run.status === 'RUNNING') {
+    content += `${STATUS_EMOJI.RUNNING} **Run is currently in progress...**\n`;
+  } else if (run.status === 'PENDING') {
+    content += `${STATUS_EMOJI.PENDING} **Run is pending execution...**\n`;
+  }
+
+  if (run.inputParams) {
+    content += `\n**Input Parameters:**\n\`\`\`json\n${JSON.stringify(run.inputParams, null, 2)}\n\`\`\`\n`;
+  }
+
+  return content;
+}
+
+/** Numbered run entries in verbose mode, or a markdown table in compact mode. */
+export function renderRunList(
+  runs: HexProjectRun[],
+  options: RenderOptions = getRenderOptions(),
+  startIndex = 0
+): string {
+  if (options.mode === 'compact') {
+    return markdownTable(
+      ['#', 'Status', 'Run ID', 'Started', 'Duration', 'Triggered By', 'Error'],
+      runs.map((run, index) => [
+        startIndex + index + 1,
+        `${statusEmoji(run.status)} ${run.status}`,
+        run.runId,
+        formatDate(run.startedAt, options),
+        runDuration(run),
+        run.triggeredBy?.name ?? '',
+        run.errorMessage ? (run.errorMessage.split('\n')[0] as string) : '',
+      ])
+    );
+  }
+
+  let content = '';
+  runs.forEach((run, index) => {
+    content += `${startIndex + index + 1}. ${statusEmoji(run.status)} **${run.status}** (${run.runId})\n`;
+    content += `   Started: ${formatDate(run.startedAt, options)}\n`;
+
+    if (run.completedAt) {
+      content += `   Completed: ${formatDate(run.completedAt, options)}\n`;
+    }
+
+    if (run.executionTime) {
+      content += `   Duration: ${formatDuration(run.executionTime)}\n`;
+    }
+
+    if (run.triggeredBy) {
+      content += `   Triggered by: ${run.triggeredBy.name}\n`;
+    }
+
+    if (run.errorMessage) {
+      content += `   Error: ${run.errorMessage}\n`;
+    }
+
+    content += '\n';
+  });
+  return content;
+}
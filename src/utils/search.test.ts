@@ -0,0 +1,102 @@
+import { describe, expect, it } from '@jest/globals';
+import { HexProject } from '../types/index.js';
+import { editDistance, ProjectSearchIndex, tokenize } from './search.js';
+
+function project(projectId: string, name: string, fields: Partial<HexProject> = {}): HexProject {
+  return {
+    projectId,
+    name,
+    status: 'ACTIVE',
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z',
+    author: { userId: 'u1', name: 'Ada Lovelace', email: 'ada@example.com' },
+    workspace: { workspaceId: 'w1', name: 'Analytics' },
+    visibility: 'WORKSPACE',
+    ...fields,
+  };
+}
+
+const projects = [
+  project('p1', 'Daily Revenue Dashboard', { tags: ['finance'], description: 'Revenue by region' }),
+  project('p2', 'Marketing Funnel', { tags: ['marketing', 'revenue'] }),
+  project('p3', 'Churn Model', {
+    description: 'Predicts customer churn from revenue signals',
+    author: { userId: 'u2', name: 'Grace Hopper', email: 'grace@example.com' },
+  }),
+  project('p4', 'Inventory Forecast'),
+];
+
+function ids(query: string, fuzzy?: boolean): string[] {
+  const index = new ProjectSearchIndex(projects);
+  return index.search(query, fuzzy === undefined ? {} : { fuzzy }).map(result => result.project.projectId);
+}
+
+describe('tokenize', () => {
+  it('splits camelCase and punctuation, strips accents and drops stop words', () => {
+    expect(tokenize('RevenueDaily – Q3')).toEqual(['revenue', 'daily', 'q3']);
+    expect(tokenize('Café of the Année')).toEqual(['cafe', 'annee']);
+  });
+});
+
+describe('editDistance', () => {
+  it('counts insertions, deletions, substitutions and transpositions', () => {
+    expect(editDistance('revenue', 'revenue', 2)).toBe(0);
+    expect(editDistance('revnue', 'revenue', 2)).toBe(1);
+    expect(editDistance('reveune', 'revenue', 2)).toBe(1);
+    expect(editDistance('kitten', 'sitting', 3)).toBe(3);
+  });
+
+  it('gives up once the distance exceeds the maximum', () => {
+    expect(editDistance('churn', 'forecast', 1)).toBe(2);
+    expect(editDistance('a', 'abcdef', 2)).toBe(3);
+  });
+});
+
+describe('ProjectSearchIndex', () => {
+  it('ranks name matches above tag and description matches', () => {
+    expect(ids('revenue')).toEqual(['p1', 'p2', 'p3']);
+  });
+
+  it('reports which fields matched', () => {
+    const [first] = new ProjectSearchIndex(projects).search('revenue');
+    expect(first?.matchedFields).toEqual(['name', 'description']);
+  });
+
+  it('requires every query term to match', () => {
+    expect(ids('revenue churn')).toEqual(['p3']);
+    expect(ids('revenue inventory')).toEqual([]);
+  });
+
+  it('matches prefixes', () => {
+    expect(ids('invent')).toEqual(['p4']);
+  });
+
+  it('matches authors by name and email', () => {
+    expect(ids('grace')).toEqual(['p3']);
+    expect(ids('ada')).toEqual(['p1', 'p2', 'p4']);
+  });
+
+  it('tolerates typos unless fuzzy matching is off', () => {
+    expect(ids('forcast')).toEqual(['p4']);
+    expect(ids('forcast', false)).toEqual([]);
+  });
+
+  it('allows a typo from four characters on, but not in shorter terms', () => {
+    expect(ids('chrn')).toEqual(['p3']);
+    expect(ids('cxn')).toEqual([]);
+  });
+
+  it('boosts projects whose name contains the whole query', () => {
+    const index = new ProjectSearchIndex([
+      project('a', 'Revenue Daily Summary'),
+      project('b', 'Daily Summary', { tags: ['revenue'] }),
+    ]);
+    const [phrase, scattered] = index.search('revenue daily');
+    expect(phrase?.project.projectId).toBe('a');
+    expect(phrase?.score).toBeGreaterThan(scattered?.score ?? 0);
+  });
+
+  it('returns nothing for queries made only of stop words', () => {
+    expect(ids('the and of')).toEqual([]);
+  });
+});
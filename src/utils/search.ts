@@ -0,0 +1,196 @@
+import { HexProject } from '../types/index.js';
+
+export type SearchField = 'name' | 'tags' | 'author' | 'description';
+
+export interface SearchResult {
+  project: HexProject;
+  score: number;
+  matchedFields: SearchField[];
+}
+
+export interface SearchOptions {
+  /** Allow typo-tolerant matches (edit distance 1 for 4-7 characters, 2 for longer terms). */
+  fuzzy?: boolean;
+}
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 3,
+  tags: 2,
+  author: 1.5,
+  description: 1,
+};
+
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.8;
+const FUZZY_MATCH = [1, 0.6, 0.4];
+// Bonus multiplier when the whole query appears verbatim in the project name
+const PHRASE_BONUS = 1.5;
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'the', 'of', 'for', 'in', 'on', 'or', 'to']);
+
+/**
+ * Lowercases, strips accents and splits on non-alphanumerics and camelCase
+ * boundaries, e.g. "RevenueDaily – Q3" becomes ["revenue", "daily", "q3"].
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token && !STOP_WORDS.has(token));
+}
+
+/** Optimal string alignment distance, giving up once it exceeds `max`. */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const beforePrevious = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(
+        (previousRow[j] as number) + 1,
+        (row[j - 1] as number) + 1,
+        (previousRow[j - 1] as number) + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, (beforePrevious[j - 2] as number) + 1);
+      }
+      row[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > max) {
+      return max + 1;
+    }
+  }
+
+  return row[b.length] as number;
+}
+
+function maxEditsFor(term: string): number {
+  if (term.length < 4) {
+    return 0;
+  }
+  return term.length < 8 ? 1 : 2;
+}
+
+/**
+ * Inverted index over project names, tags, authors and descriptions. Each
+ * query term must match every returned project (exactly, as a prefix, or
+ * within the fuzzy edit distance); scores combine match quality, field weight
+ * and how rare the matched term is across the workspace.
+ */
+export class ProjectSearchIndex {
+  // term -> project index -> fields containing the term
+  private postings = new Map<string, Map<number, Set<SearchField>>>();
+
+  constructor(private projects: HexProject[]) {
+    projects.forEach((project, index) => {
+      this.addField(index, 'name', project.name);
+      this.addField(index, 'tags', (project.tags || []).join(' '));
+      this.addField(index, 'author', `${project.author.name} ${project.author.email}`);
+      this.addField(index, 'description', project.description || '');
+    });
+  }
+
+  search(query: string, options: SearchOptions = {}): SearchResult[] {
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0) {
+      return [];
+    }
+
+    const fuzzy = options.fuzzy ?? true;
+    const scores = new Map<number, number>();
+    const matchedFields = new Map<number, Set<SearchField>>();
+
+    for (const [termIndex, queryTerm] of queryTerms.entries()) {
+      const termScores = new Map<number, number>();
+
+      for (const [term, postings] of this.postings) {
+        const quality = this.matchQuality(queryTerm, term, fuzzy);
+        if (quality === 0) {
+          continue;
+        }
+
+        const idf = Math.log(1 + this.projects.length / postings.size);
+        for (const [projectIndex, fields] of postings) {
+          const weight = Math.max(...[...fields].map(field => FIELD_WEIGHTS[field]));
+          const score = quality * weight * idf;
+          if (score > (termScores.get(projectIndex) ?? 0)) {
+            termScores.set(projectIndex, score);
+          }
+
+          const matched = matchedFields.get(projectIndex) ?? new Set<SearchField>();
+          fields.forEach(field => matched.add(field));
+          matchedFields.set(projectIndex, matched);
+        }
+      }
+
+      // Every query term has to match: drop projects that missed this one
+      for (const projectIndex of termIndex === 0 ? termScores.keys() : scores.keys()) {
+        const termScore = termScores.get(projectIndex);
+        if (termScore === undefined) {
+          scores.delete(projectIndex);
+        } else {
+          scores.set(projectIndex, (scores.get(projectIndex) ?? 0) + termScore);
+        }
+      }
+    }
+
+    const phrase = tokenize(query).join(' ');
+    return [...scores.entries()]
+      .map(([projectIndex, score]) => {
+        const project = this.projects[projectIndex] as HexProject;
+        const bonus = tokenize(project.name).join(' ').includes(phrase) ? PHRASE_BONUS : 1;
+        const fields = matchedFields.get(projectIndex) ?? new Set<SearchField>();
+        return {
+          project,
+          score: Math.round(score * bonus * 100) / 100,
+          matchedFields: (Object.keys(FIELD_WEIGHTS) as SearchField[]).filter(field => fields.has(field)),
+        };
+      })
+      .sort((a, b) => b.score - a.score);
+  }
+
+  private addField(projectIndex: number, field: SearchField, text: string): void {
+    tokenize(text).forEach(term => {
+      const postings = this.postings.get(term) ?? new Map<number, Set<SearchField>>();
+      const fields = postings.get(projectIndex) ?? new Set<SearchField>();
+      fields.add(field);
+      postings.set(projectIndex, fields);
+      this.postings.set(term, postings);
+    });
+  }
+
+  private matchQuality(queryTerm: string, term: string, fuzzy: boolean): number {
+    if (term === queryTerm) {
+      return EXACT_MATCH;
+    }
+    if (queryTerm.length >= 2 && term.startsWith(queryTerm)) {
+      return PREFIX_MATCH;
+    }
+    if (!fuzzy) {
+      return 0;
+    }
+
+    const maxEdits = maxEditsFor(queryTerm);
+    if (maxEdits === 0) {
+      return 0;
+    }
+
+    const distance = editDistance(queryTerm, term, maxEdits);
+    return distance <= maxEdits ? FUZZY_MATCH[distance] as number : 0;
+  }
+}
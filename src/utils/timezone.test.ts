@@ -0,0 +1,57 @@
+import { describe, expect, it } from '@jest/globals';
+import { getZonedParts, isValidTimeZone, zonedTimeToUtc } from './timezone.js';
+
+describe('isValidTimeZone', () => {
+  it('accepts IANA zones and UTC', () => {
+    expect(isValidTimeZone('America/New_York')).toBe(true);
+    expect(isValidTimeZone('UTC')).toBe(true);
+  });
+
+  it('rejects unknown zones', () => {
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+  });
+});
+
+describe('getZonedParts', () => {
+  it('returns the wall-clock fields in the zone', () => {
+    expect(getZonedParts(new Date('2024-01-15T12:30:45Z'), 'Asia/Tokyo')).toEqual({
+      year: 2024,
+      month: 1,
+      day: 15,
+      hour: 21,
+      minute: 30,
+      second: 45,
+      weekday: 1,
+    });
+  });
+
+  it('rolls over to the zone\'s calendar day', () => {
+    const parts = getZonedParts(new Date('2024-03-01T02:00:00Z'), 'America/Los_Angeles');
+    expect([parts.month, parts.day, parts.hour, parts.weekday]).toEqual([2, 29, 18, 4]);
+  });
+});
+
+describe('zonedTimeToUtc', () => {
+  it('applies standard and daylight time offsets', () => {
+    expect(zonedTimeToUtc({ year: 2024, month: 1, day: 15, hour: 9, minute: 0 }, 'America/New_York').toISOString())
+      .toBe('2024-01-15T14:00:00.000Z');
+    expect(zonedTimeToUtc({ year: 2024, month: 7, day: 15, hour: 9, minute: 0 }, 'America/New_York').toISOString())
+      .toBe('2024-07-15T13:00:00.000Z');
+  });
+
+  it('handles zones with non-hour offsets', () => {
+    expect(zonedTimeToUtc({ year: 2024, month: 5, day: 1, hour: 9, minute: 0 }, 'Asia/Kolkata').toISOString())
+      .toBe('2024-05-01T03:30:00.000Z');
+  });
+
+  it('resolves a time in the spring-forward gap to just after the transition', () => {
+    const result = zonedTimeToUtc({ year: 2024, month: 3, day: 10, hour: 2, minute: 30 }, 'America/New_York');
+    const parts = getZonedParts(result, 'America/New_York');
+    expect([parts.day, parts.hour, parts.minute]).toEqual([10, 3, 30]);
+  });
+
+  it('resolves a repeated fall-back time to one of its instants', () => {
+    const result = zonedTimeToUtc({ year: 2024, month: 11, day: 3, hour: 1, minute: 30 }, 'America/New_York');
+    expect(['2024-11-03T05:30:00.000Z', '2024-11-03T06:30:00.000Z']).toContain(result.toISOString());
+  });
+});